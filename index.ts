@@ -6,11 +6,14 @@ import { registerFeishuDocTools } from "./src/docx.js";
 import { registerFeishuWikiTools } from "./src/wiki.js";
 import { registerFeishuDriveTools } from "./src/drive.js";
 import { registerFeishuPermTools } from "./src/perm.js";
+import { registerFeishuChatHistoryTools } from "./src/chat-history.js";
 
 export { monitorFeishuProvider } from "./src/monitor.js";
 export {
   sendMessageFeishu,
   sendCardFeishu,
+  sendPostFeishu,
+  sendMarkdownPostFeishu,
   updateCardFeishu,
   editMessageFeishu,
   getMessageFeishu,
@@ -21,8 +24,31 @@ export {
   sendImageFeishu,
   sendFileFeishu,
   sendMediaFeishu,
+  sendAudioFeishu,
+  sendAudioBufferFeishu,
+  sendStickerFeishu,
+  sniffMediaType,
 } from "./src/media.js";
 export { probeFeishu } from "./src/probe.js";
+export { fetchFeishuChatHistory } from "./src/chat-history.js";
+export {
+  setFeishuDedupStore,
+  createFileDedupStore,
+  createMemoryDedupStore,
+  type FeishuDedupStore,
+} from "./src/dedup.js";
+export {
+  setFeishuSttProvider,
+  createCommandSttProvider,
+  createOpenAISttProvider,
+  type FeishuSttProvider,
+} from "./src/stt.js";
+export {
+  setFeishuTtsProvider,
+  createCommandTtsProvider,
+  createOpenAITtsProvider,
+  type FeishuTtsProvider,
+} from "./src/tts.js";
 export {
   addReactionFeishu,
   removeReactionFeishu,
@@ -55,6 +81,7 @@ const plugin = {
     registerFeishuWikiTools(api);
     registerFeishuDriveTools(api);
     registerFeishuPermTools(api);
+    registerFeishuChatHistoryTools(api);
   },
 };
 
@@ -1,6 +1,11 @@
 import type { ClawdbotConfig } from "openclaw/plugin-sdk";
-import { DEFAULT_ACCOUNT_ID } from "openclaw/plugin-sdk";
-import type { FeishuConfig, FeishuDomain, ResolvedFeishuAccount } from "./types.js";
+import { DEFAULT_ACCOUNT_ID, normalizeAccountId } from "openclaw/plugin-sdk";
+import type {
+  FeishuAccountConfig,
+  FeishuConfig,
+  FeishuDomain,
+  ResolvedFeishuAccount,
+} from "./types.js";
 
 export function resolveFeishuCredentials(cfg?: FeishuConfig): {
   appId: string;
@@ -21,29 +26,78 @@ export function resolveFeishuCredentials(cfg?: FeishuConfig): {
   };
 }
 
+function listConfiguredAccountIds(cfg: ClawdbotConfig): string[] {
+  const accounts = (cfg.channels?.feishu as FeishuConfig | undefined)?.accounts;
+  if (!accounts || typeof accounts !== "object") return [];
+  return Object.keys(accounts).filter(Boolean).map((id) => normalizeAccountId(id));
+}
+
+function resolveAccountConfig(
+  cfg: ClawdbotConfig,
+  accountId: string,
+): FeishuAccountConfig | undefined {
+  const accounts = (cfg.channels?.feishu as FeishuConfig | undefined)?.accounts;
+  if (!accounts || typeof accounts !== "object") return undefined;
+
+  const direct = accounts[accountId];
+  if (direct) return direct;
+
+  // Account ids are normalized to lowercase, config keys may not be
+  const lowered = accountId.toLowerCase();
+  const matchKey = Object.keys(accounts).find((key) => key.toLowerCase() === lowered);
+  return matchKey ? (accounts[matchKey] ?? undefined) : undefined;
+}
+
+/**
+ * Merge the top-level channel config with the per-account overrides.
+ * The `accounts` map itself is not carried into the merged config.
+ */
+function mergeFeishuAccountConfig(cfg: ClawdbotConfig, accountId: string): FeishuConfig {
+  const raw = (cfg.channels?.feishu ?? {}) as FeishuConfig;
+  const { accounts: _ignored, defaultAccount: _ignored2, ...base } = raw;
+  const account = resolveAccountConfig(cfg, accountId) ?? {};
+  const overrides = Object.fromEntries(
+    Object.entries(account).filter(([, value]) => value !== undefined),
+  );
+  return { ...base, ...overrides } as FeishuConfig;
+}
+
 export function resolveFeishuAccount(params: {
   cfg: ClawdbotConfig;
   accountId?: string | null;
 }): ResolvedFeishuAccount {
+  const accountId = params.accountId?.trim()
+    ? normalizeAccountId(params.accountId)
+    : resolveDefaultFeishuAccountId(params.cfg);
   const feishuCfg = params.cfg.channels?.feishu as FeishuConfig | undefined;
-  const enabled = feishuCfg?.enabled !== false;
-  const creds = resolveFeishuCredentials(feishuCfg);
+  const baseEnabled = feishuCfg?.enabled !== false;
+  const merged = mergeFeishuAccountConfig(params.cfg, accountId);
+  const accountEnabled = resolveAccountConfig(params.cfg, accountId)?.enabled !== false;
+  const creds = resolveFeishuCredentials(merged);
 
   return {
-    accountId: params.accountId?.trim() || DEFAULT_ACCOUNT_ID,
-    enabled,
+    accountId,
+    name: merged.name?.trim() || undefined,
+    enabled: baseEnabled && accountEnabled,
     configured: Boolean(creds),
     appId: creds?.appId,
     domain: creds?.domain ?? "feishu",
+    config: merged,
   };
 }
 
-export function listFeishuAccountIds(_cfg: ClawdbotConfig): string[] {
-  return [DEFAULT_ACCOUNT_ID];
+export function listFeishuAccountIds(cfg: ClawdbotConfig): string[] {
+  const ids = listConfiguredAccountIds(cfg);
+  if (ids.length === 0) return [DEFAULT_ACCOUNT_ID];
+  return ids.sort((a, b) => a.localeCompare(b));
 }
 
-export function resolveDefaultFeishuAccountId(_cfg: ClawdbotConfig): string {
-  return DEFAULT_ACCOUNT_ID;
+export function resolveDefaultFeishuAccountId(cfg: ClawdbotConfig): string {
+  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
+  if (feishuCfg?.defaultAccount?.trim()) return normalizeAccountId(feishuCfg.defaultAccount);
+  const ids = listFeishuAccountIds(cfg);
+  if (ids.includes(DEFAULT_ACCOUNT_ID)) return DEFAULT_ACCOUNT_ID;
+  return ids[0] ?? DEFAULT_ACCOUNT_ID;
 }
 
 export function listEnabledFeishuAccounts(cfg: ClawdbotConfig): ResolvedFeishuAccount[] {
@@ -0,0 +1,36 @@
+/**
+ * In-flight agent runs that can be stopped from Feishu, keyed by the message id
+ * of the streaming card that shows them (the Stop button's callback carries it).
+ */
+export type ActiveRunHandle = {
+  cancel: () => void;
+  /** open_id of the user whose message started the run; only they may stop it */
+  requesterOpenId?: string;
+};
+
+export type CancelActiveRunResult = "canceled" | "finished" | "forbidden";
+
+const activeRuns = new Map<string, ActiveRunHandle>();
+
+export function registerActiveRun(messageId: string, handle: ActiveRunHandle): void {
+  activeRuns.set(messageId, handle);
+}
+
+export function unregisterActiveRun(messageId: string, handle?: ActiveRunHandle): void {
+  if (handle && activeRuns.get(messageId) !== handle) return;
+  activeRuns.delete(messageId);
+}
+
+/**
+ * Cancel the run shown on the given card on behalf of `operatorOpenId`.
+ * @returns "finished" if the run already finished (or was never registered),
+ *   "forbidden" if the operator is not the user who started it
+ */
+export function cancelActiveRun(messageId: string, operatorOpenId: string): CancelActiveRunResult {
+  const handle = activeRuns.get(messageId);
+  if (!handle) return "finished";
+  if (handle.requesterOpenId && handle.requesterOpenId !== operatorOpenId) return "forbidden";
+  activeRuns.delete(messageId);
+  handle.cancel();
+  return "canceled";
+}
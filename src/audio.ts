@@ -0,0 +1,132 @@
+import { spawn } from "child_process";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+// Shell and ffmpeg helpers shared by speech-to-text, text-to-speech and outbound media.
+
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/** Run a shell command, optionally feeding `input` on stdin; resolves stdout. */
+export function runShellCommand(
+  command: string,
+  options: { timeoutMs: number; input?: string },
+): Promise<string> {
+  const { timeoutMs, input } = options;
+  return new Promise((resolve, reject) => {
+    // Own process group, so a timeout also stops whatever the shell started
+    const child = spawn(command, { shell: true, detached: true, stdio: ["pipe", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    const timer = setTimeout(() => {
+      try {
+        if (child.pid) process.kill(-child.pid, "SIGKILL");
+      } catch {
+        child.kill("SIGKILL");
+      }
+      reject(new Error(`timed out after ${timeoutMs}ms: ${command}`));
+    }, timeoutMs);
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve(stdout);
+      else reject(new Error(`exited with code ${code}: ${stderr.trim().slice(-500)}`));
+    });
+    child.stdin.on("error", () => {
+      // The command may exit without reading stdin
+    });
+    child.stdin.end(input ?? "");
+  });
+}
+
+/** Run ffmpeg on `inputPath`, writing `outputPath` with the given output options. */
+export async function runFfmpeg(params: {
+  inputPath: string;
+  outputPath: string;
+  outputArgs: string[];
+  ffmpegPath?: string;
+  timeoutMs: number;
+}): Promise<void> {
+  const { inputPath, outputPath, outputArgs, ffmpegPath = "ffmpeg", timeoutMs } = params;
+  await runShellCommand(
+    [
+      shellQuote(ffmpegPath),
+      "-nostdin -loglevel error -y -i",
+      shellQuote(inputPath),
+      ...outputArgs,
+      shellQuote(outputPath),
+    ].join(" "),
+    { timeoutMs },
+  );
+}
+
+/**
+ * Transcode any audio ffmpeg understands to Ogg/Opus, the only format Feishu plays
+ * as a voice message.
+ */
+export async function transcodeToOpus(params: {
+  audio: Buffer;
+  /** Original file name; its extension helps ffmpeg pick a demuxer */
+  fileName?: string;
+  ffmpegPath?: string;
+  timeoutMs?: number;
+}): Promise<Buffer> {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "feishu-audio-"));
+  try {
+    const inputPath = path.join(tmpDir, `input${path.extname(params.fileName ?? "") || ".bin"}`);
+    const outputPath = path.join(tmpDir, "output.opus");
+    await fs.writeFile(inputPath, params.audio);
+    await runFfmpeg({
+      inputPath,
+      outputPath,
+      outputArgs: ["-vn -ac 1 -ar 48000 -c:a libopus -b:a 32k -f ogg"],
+      ffmpegPath: params.ffmpegPath,
+      timeoutMs: params.timeoutMs ?? 60_000,
+    });
+    return await fs.readFile(outputPath);
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  }
+}
+
+/** Write a representative frame from the start of a video to `outputPath` as JPEG. */
+export async function extractVideoFrame(params: {
+  videoPath: string;
+  outputPath: string;
+  ffmpegPath?: string;
+  timeoutMs?: number;
+}): Promise<void> {
+  await runFfmpeg({
+    inputPath: params.videoPath,
+    outputPath: params.outputPath,
+    // Picks the most typical of the first frames, so black fade-ins are skipped
+    outputArgs: ["-an -vf thumbnail=50 -frames:v 1 -q:v 3 -f image2"],
+    ffmpegPath: params.ffmpegPath,
+    timeoutMs: params.timeoutMs ?? 30_000,
+  });
+}
+
+/**
+ * Duration of an Ogg/Opus stream in milliseconds, read from the granule position of
+ * the last page (always counted at 48 kHz) minus the encoder pre-skip.
+ * Returns undefined if the buffer is not Ogg/Opus.
+ */
+export function getOggOpusDurationMs(buffer: Buffer): number | undefined {
+  if (buffer.length < 28 || buffer.toString("latin1", 0, 4) !== "OggS") return undefined;
+  const head = buffer.indexOf("OpusHead", 0, "latin1");
+  if (head < 0 || head + 12 > buffer.length) return undefined;
+  const preSkip = buffer.readUInt16LE(head + 10);
+
+  const lastPage = buffer.lastIndexOf("OggS", buffer.length - 1, "latin1");
+  if (lastPage < 0 || lastPage + 14 > buffer.length) return undefined;
+  const granule = Number(buffer.readBigInt64LE(lastPage + 6));
+  if (granule <= 0) return undefined;
+  return Math.max(0, Math.round((granule - preSkip) / 48));
+}
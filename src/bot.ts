@@ -10,10 +10,10 @@ import type {
   FeishuConfig,
   FeishuMessageContext,
   FeishuMediaInfo,
-  FeishuHistoryMessage,
 } from "./types.js";
 import { getFeishuRuntime } from "./runtime.js";
 import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccount } from "./accounts.js";
 import {
   resolveFeishuGroupConfig,
   resolveFeishuReplyPolicy,
@@ -21,8 +21,26 @@ import {
   isFeishuGroupAllowed,
 } from "./policy.js";
 import { createFeishuReplyDispatcher } from "./reply-dispatcher.js";
-import { getMessageFeishu, listMessagesFeishu } from "./send.js";
+import { getMessageFeishu } from "./send.js";
+import {
+  fetchFeishuChatHistory,
+  formatFeishuHistoryLine,
+  type ChatHistoryResult,
+} from "./chat-history.js";
 import { downloadImageFeishu, downloadMessageResourceFeishu } from "./media.js";
+import { getFeishuDedupStore } from "./dedup.js";
+import { transcribeFeishuAudio } from "./stt.js";
+import { sendVoiceReplyFeishu } from "./tts.js";
+import { parseFeishuPostContent } from "./post.js";
+import { EXTRACTED_MESSAGE_TYPES, extractFeishuMessageText, stickerReference } from "./message-content.js";
+import {
+  collectHistoryImages,
+  describeBotReplyForHistory,
+  describeFeishuHistoryMessage,
+  recordBotRepliesToHistory,
+  rememberHistoryImages,
+  type FeishuHistoryImageRef,
+} from "./group-history.js";
 import {
   extractMentionTargets,
   extractMessageBody,
@@ -83,58 +101,31 @@ function extractHistoryCount(content: string): number {
   return 200; // Default
 }
 
-export type ChatHistoryResult = {
-  messages: FeishuHistoryMessage[];
-  total: number;
-  formatted: string;
-};
-
 /**
  * Fetch chat history and format it for agent context
  */
 export async function fetchChatHistoryForAgent(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   chatId: string;
   requestContent: string;
   runtime?: RuntimeEnv;
 }): Promise<ChatHistoryResult> {
-  const { cfg, chatId, requestContent, runtime } = params;
+  const { cfg, accountId, chatId, requestContent, runtime } = params;
   const log = runtime?.log ?? console.log;
 
   const count = extractHistoryCount(requestContent);
   log(`feishu: fetching ${count} messages from chat ${chatId}`);
 
-  const result = await listMessagesFeishu({
-    cfg,
-    chatId,
-    count,
-    sortType: "ByCreateTimeDesc",
-  });
+  const result = await fetchFeishuChatHistory({ cfg, accountId, chatId, count });
 
-  // Format messages for agent (reverse to chronological order)
-  const chronologicalMessages = [...result.messages].reverse();
-
-  const formatted = chronologicalMessages
-    .filter((msg) => !msg.deleted && msg.content.trim())
-    .map((msg) => {
-      const time = new Date(msg.createTime).toLocaleString("zh-CN", {
-        month: "2-digit",
-        day: "2-digit",
-        hour: "2-digit",
-        minute: "2-digit",
-      });
-      const sender = msg.senderType === "app" ? "[Bot]" : msg.senderId;
-      return `[${time}] ${sender}: ${msg.content}`;
-    })
-    .join("\n");
-
-  log(`feishu: fetched ${result.total} messages, formatted ${chronologicalMessages.length} for agent`);
+  log(`feishu: fetched ${result.total} messages for agent`);
+  return result;
+}
 
-  return {
-    messages: result.messages,
-    total: result.total,
-    formatted,
-  };
+/** Pending group history is buffered per thread when the message belongs to one */
+export function resolveFeishuHistoryKey(chatId: string, threadId?: string): string {
+  return threadId ? `${chatId}:${threadId}` : chatId;
 }
 
 // --- Helper: Generate Feishu image URL for model access ---
@@ -154,25 +145,6 @@ function getFeishuImageUrl(params: {
   return url.toString();
 }
 
-// --- Message deduplication ---
-const processedMessages = new Map<string, number>(); // messageId -> timestamp
-const MESSAGE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
-
-// Periodically clean up expired message IDs (every hour)
-setInterval(() => {
-  const now = Date.now();
-  let cleanedCount = 0;
-  for (const [id, timestamp] of processedMessages) {
-    if (now - timestamp > MESSAGE_EXPIRY_MS) {
-      processedMessages.delete(id);
-      cleanedCount++;
-    }
-  }
-  if (cleanedCount > 0) {
-    console.log(`feishu: cleaned ${cleanedCount} expired message IDs, remaining: ${processedMessages.size}`);
-  }
-}, 60 * 60 * 1000); // Clean every hour
-
 // --- Permission error extraction ---
 // Extract permission grant URL from Feishu API error response.
 type PermissionError = {
@@ -211,7 +183,8 @@ function extractPermissionError(err: unknown): PermissionError | null {
 }
 
 // --- Sender name resolution (so the agent can distinguish who is speaking in group chats) ---
-// Cache display names by open_id to avoid an API call on every message.
+// Cache display names by account + open_id to avoid an API call on every message
+// (open_ids are app-scoped, so the same user has different ids per account).
 const SENDER_NAME_TTL_MS = 10 * 60 * 1000;
 const senderNameCache = new Map<string, { name: string; expireAt: number }>();
 
@@ -227,19 +200,21 @@ type SenderNameResult = {
 
 async function resolveFeishuSenderName(params: {
   feishuCfg?: FeishuConfig;
+  accountId: string;
   senderOpenId: string;
   log: (...args: any[]) => void;
 }): Promise<SenderNameResult> {
-  const { feishuCfg, senderOpenId, log } = params;
+  const { feishuCfg, accountId, senderOpenId, log } = params;
   if (!feishuCfg) return {};
   if (!senderOpenId) return {};
 
-  const cached = senderNameCache.get(senderOpenId);
+  const cacheKey = `${accountId}:${senderOpenId}`;
+  const cached = senderNameCache.get(cacheKey);
   const now = Date.now();
   if (cached && cached.expireAt > now) return { name: cached.name };
 
   try {
-    const client = createFeishuClient(feishuCfg);
+    const client = createFeishuClient(feishuCfg, accountId);
 
     // contact/v3/users/:user_id?user_id_type=open_id
     const res: any = await client.contact.user.get({
@@ -254,7 +229,7 @@ async function resolveFeishuSenderName(params: {
       res?.data?.user?.en_name;
 
     if (name && typeof name === "string") {
-      senderNameCache.set(senderOpenId, { name, expireAt: now + SENDER_NAME_TTL_MS });
+      senderNameCache.set(cacheKey, { name, expireAt: now + SENDER_NAME_TTL_MS });
       return { name };
     }
 
@@ -287,6 +262,7 @@ export type FeishuMessageEvent = {
     message_id: string;
     root_id?: string;
     parent_id?: string;
+    thread_id?: string;
     chat_id: string;
     chat_type: "p2p" | "group";
     message_type: string;
@@ -304,27 +280,23 @@ export type FeishuMessageEvent = {
   };
 };
 
-export type FeishuBotAddedEvent = {
-  chat_id: string;
-  operator_id: {
-    open_id?: string;
-    user_id?: string;
-    union_id?: string;
-  };
-  external: boolean;
-  operator_tenant_key?: string;
-};
-
-function parseMessageContent(content: string, messageType: string): string {
+function parseMessageContent(
+  content: string,
+  messageType: string,
+  options: { mentions?: FeishuMessageEvent["message"]["mentions"]; botOpenId?: string } = {},
+): string {
   try {
     const parsed = JSON.parse(content);
     if (messageType === "text") {
       return parsed.text || "";
     }
     if (messageType === "post") {
-      // Extract text content from rich text post
-      const { textContent } = parsePostContent(content);
-      return textContent;
+      // Rich text post as Markdown; mentions are resolved to names here
+      return parseFeishuPostContent(content, options).markdown;
+    }
+    if (messageType === "sticker") {
+      const reference = stickerReference(content);
+      return reference ? `<media:sticker> ${reference}` : "<media:sticker>";
     }
     return content;
   } catch {
@@ -383,50 +355,6 @@ function parseMediaKeys(
   }
 }
 
-/**
- * Parse post (rich text) content and extract embedded image keys.
- * Post structure: { title?: string, content: [[{ tag, text?, image_key?, ... }]] }
- */
-function parsePostContent(content: string): {
-  textContent: string;
-  imageKeys: string[];
-} {
-  try {
-    const parsed = JSON.parse(content);
-    const title = parsed.title || "";
-    const contentBlocks = parsed.content || [];
-    let textContent = title ? `${title}\n\n` : "";
-    const imageKeys: string[] = [];
-
-    for (const paragraph of contentBlocks) {
-      if (Array.isArray(paragraph)) {
-        for (const element of paragraph) {
-          if (element.tag === "text") {
-            textContent += element.text || "";
-          } else if (element.tag === "a") {
-            // Link: show text or href
-            textContent += element.text || element.href || "";
-          } else if (element.tag === "at") {
-            // Mention: @username
-            textContent += `@${element.user_name || element.user_id || ""}`;
-          } else if (element.tag === "img" && element.image_key) {
-            // Embedded image
-            imageKeys.push(element.image_key);
-          }
-        }
-        textContent += "\n";
-      }
-    }
-
-    return {
-      textContent: textContent.trim() || "[富文本消息]",
-      imageKeys,
-    };
-  } catch {
-    return { textContent: "[富文本消息]", imageKeys: [] };
-  }
-}
-
 /**
  * Infer placeholder text based on message type.
  */
@@ -448,19 +376,54 @@ function inferPlaceholder(messageType: string): string {
   }
 }
 
+// Most recent buffered group images attached when the bot is mentioned
+const MAX_HISTORY_IMAGES = 4;
+
+async function downloadHistoryImages(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  images: FeishuHistoryImageRef[];
+  maxBytes: number;
+  log?: (msg: string) => void;
+}): Promise<FeishuMediaInfo[]> {
+  const { cfg, accountId, images, maxBytes, log } = params;
+  const core = getFeishuRuntime();
+  const out: FeishuMediaInfo[] = [];
+
+  for (const { messageId, imageKey } of images) {
+    try {
+      const result = await downloadMessageResourceFeishu({
+        cfg,
+        accountId,
+        messageId,
+        fileKey: imageKey,
+        type: "image",
+        maxBytes,
+      });
+      const contentType = result.contentType || (await core.media.detectMime({ buffer: result.buffer }));
+      const saved = await core.channel.media.saveMediaBuffer(result.buffer, contentType, "inbound", maxBytes);
+      out.push({ path: saved.path, contentType: saved.contentType, placeholder: "<media:image>" });
+    } catch (err) {
+      log?.(`feishu: failed to download history image ${imageKey}: ${String(err)}`);
+    }
+  }
+  return out;
+}
+
 /**
  * Resolve media from a Feishu message, downloading and saving to disk.
  * Similar to Discord's resolveMediaList().
  */
 async function resolveFeishuMediaList(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   messageType: string;
   content: string;
   maxBytes: number;
   log?: (msg: string) => void;
 }): Promise<FeishuMediaInfo[]> {
-  const { cfg, messageId, messageType, content, maxBytes, log } = params;
+  const { cfg, accountId, messageId, messageType, content, maxBytes, log } = params;
 
   // Only process media message types (including post for embedded images)
   const mediaTypes = ["image", "file", "audio", "video", "media", "sticker", "post"];
@@ -472,26 +435,27 @@ async function resolveFeishuMediaList(params: {
   const core = getFeishuRuntime();
 
   // Get Feishu config for domain
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  const domain = feishuCfg?.domain ?? "feishu";
+  const domain = resolveFeishuAccount({ cfg, accountId }).domain;
 
-  // Handle post (rich text) messages with embedded images
+  // Handle post (rich text) messages with embedded images, videos and files
   if (messageType === "post") {
-    const { imageKeys } = parsePostContent(content);
-    if (imageKeys.length === 0) {
+    const { imageKeys, media } = parseFeishuPostContent(content);
+    if (imageKeys.length === 0 && media.length === 0) {
       return [];
     }
 
-    log?.(`feishu: post message contains ${imageKeys.length} embedded image(s)`);
+    log?.(`feishu: post message contains ${imageKeys.length} embedded image(s), ${media.length} file(s)`);
 
     for (const imageKey of imageKeys) {
       try {
         // Embedded images in post use messageResource API with image_key as file_key
         const result = await downloadMessageResourceFeishu({
           cfg,
+          accountId,
           messageId,
           fileKey: imageKey,
           type: "image",
+          maxBytes,
         });
 
         let contentType = result.contentType;
@@ -522,6 +486,42 @@ async function resolveFeishuMediaList(params: {
       }
     }
 
+    for (const item of media) {
+      try {
+        const result = await downloadMessageResourceFeishu({
+          cfg,
+          accountId,
+          messageId,
+          fileKey: item.fileKey,
+          type: "file",
+          maxBytes,
+        });
+
+        let contentType = result.contentType;
+        if (!contentType) {
+          contentType = await core.media.detectMime({ buffer: result.buffer });
+        }
+
+        const saved = await core.channel.media.saveMediaBuffer(
+          result.buffer,
+          contentType,
+          "inbound",
+          maxBytes,
+          result.fileName || item.fileName,
+        );
+
+        out.push({
+          path: saved.path,
+          contentType: saved.contentType,
+          placeholder: item.kind === "video" ? "<media:video>" : "<media:document>",
+        });
+
+        log?.(`feishu: downloaded embedded ${item.kind} ${item.fileKey}, saved to ${saved.path}`);
+      } catch (err) {
+        log?.(`feishu: failed to download embedded ${item.kind} ${item.fileKey}: ${String(err)}`);
+      }
+    }
+
     return out;
   }
 
@@ -550,9 +550,11 @@ async function resolveFeishuMediaList(params: {
     const resourceType = messageType === "image" ? "image" : "file";
     const result = await downloadMessageResourceFeishu({
       cfg,
+      accountId,
       messageId,
       fileKey,
       type: resourceType,
+      maxBytes,
     });
     buffer = result.buffer;
     contentType = result.contentType;
@@ -628,9 +630,16 @@ export function parseFeishuMessageEvent(
   event: FeishuMessageEvent,
   botOpenId?: string,
 ): FeishuMessageContext {
-  const rawContent = parseMessageContent(event.message.content, event.message.message_type);
+  const rawContent = parseMessageContent(event.message.content, event.message.message_type, {
+    mentions: event.message.mentions,
+    botOpenId,
+  });
   const mentionedBot = checkBotMentioned(event, botOpenId);
-  const content = stripBotMention(rawContent, event.message.mentions);
+  // Posts already drop the bot mention and keep the others as names
+  const content =
+    event.message.message_type === "post"
+      ? rawContent
+      : stripBotMention(rawContent, event.message.mentions);
 
   // Extract image_key if this is an image message
   let imageKey: string | undefined;
@@ -652,6 +661,7 @@ export function parseFeishuMessageEvent(
     mentionedBot,
     rootId: event.message.root_id || undefined,
     parentId: event.message.parent_id || undefined,
+    threadId: event.message.thread_id || undefined,
     content,
     contentType: event.message.message_type,
     imageKey,
@@ -674,29 +684,50 @@ export function parseFeishuMessageEvent(
 export async function handleFeishuMessage(params: {
   cfg: ClawdbotConfig;
   event: FeishuMessageEvent;
+  accountId?: string;
   botOpenId?: string;
   runtime?: RuntimeEnv;
   chatHistories?: Map<string, HistoryEntry[]>;
 }): Promise<void> {
   const { cfg, event, botOpenId, runtime, chatHistories } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
+  const account = resolveFeishuAccount({ cfg, accountId: params.accountId });
+  const accountId = account.accountId;
+  const feishuCfg = account.config;
   const log = runtime?.log ?? console.log;
   const error = runtime?.error ?? console.error;
 
-  // Deduplication: skip if already processed
+  // Deduplication: skip if already processed. Keyed per account, since several
+  // bots in the same chat all receive the same message_id.
   const messageId = event.message.message_id;
-  if (processedMessages.has(messageId)) {
+  const dedupKey = `${accountId}:${messageId}`;
+  if (!(await getFeishuDedupStore(cfg).claim(dedupKey))) {
     log(`feishu: skipping duplicate message ${messageId}`);
     return;
   }
-  processedMessages.set(messageId, Date.now());
 
   let ctx = parseFeishuMessageEvent(event, botOpenId);
   const isGroup = ctx.chatType === "group";
 
+  // Cards, shared chats/users and merged forwards need parsing to become readable text.
+  // API lookups wait until the message passed gating; history only needs the local text.
+  const needsExtraction = EXTRACTED_MESSAGE_TYPES.has(ctx.contentType);
+  const extractContent = (lookups: boolean) =>
+    extractFeishuMessageText({
+      cfg,
+      accountId,
+      messageId: ctx.messageId,
+      messageType: ctx.contentType,
+      content: event.message.content,
+      lookups,
+    });
+  if (needsExtraction) {
+    ctx = { ...ctx, content: await extractContent(false) };
+  }
+
   // Resolve sender display name (best-effort) so the agent can attribute messages correctly.
   const senderResult = await resolveFeishuSenderName({
     feishuCfg,
+    accountId,
     senderOpenId: ctx.senderOpenId,
     log,
   });
@@ -728,6 +759,10 @@ export async function handleFeishuMessage(params: {
     feishuCfg?.historyLimit ?? cfg.messages?.groupChat?.historyLimit ?? DEFAULT_GROUP_HISTORY_LIMIT,
   );
 
+  // Each topic/thread of a group gets its own session, pending history and in-thread replies
+  const threadId = isGroup && feishuCfg.threadSessions !== false ? ctx.threadId : undefined;
+  const historyKey = isGroup ? resolveFeishuHistoryKey(ctx.chatId, threadId) : undefined;
+
   if (isGroup) {
     const groupPolicy = feishuCfg?.groupPolicy ?? "open";
     const groupAllowFrom = feishuCfg?.groupAllowFrom ?? [];
@@ -770,17 +805,31 @@ export async function handleFeishuMessage(params: {
     if (requireMention && !ctx.mentionedBot) {
       log(`feishu: message in group ${ctx.chatId} did not mention bot, recording to history`);
       if (chatHistories) {
+        const body = describeFeishuHistoryMessage({
+          messageType: ctx.contentType,
+          text: ctx.content,
+          rawContent: event.message.content,
+        });
         recordPendingHistoryEntryIfEnabled({
           historyMap: chatHistories,
-          historyKey: ctx.chatId,
+          historyKey: historyKey ?? ctx.chatId,
           limit: historyLimit,
           entry: {
             sender: ctx.senderOpenId,
-            body: `${ctx.senderName ?? ctx.senderOpenId}: ${ctx.content}`,
+            body: `${ctx.senderName ?? ctx.senderOpenId}: ${body}`,
             timestamp: Date.now(),
             messageId: ctx.messageId,
           },
         });
+        if (historyLimit > 0) {
+          const imageKeys =
+            ctx.contentType === "post"
+              ? parseFeishuPostContent(event.message.content).imageKeys
+              : ctx.contentType === "image" && ctx.imageKey
+                ? [ctx.imageKey]
+                : [];
+          rememberHistoryImages({ accountId, chatId: ctx.chatId, messageId: ctx.messageId, imageKeys });
+        }
       }
       return;
     }
@@ -800,6 +849,10 @@ export async function handleFeishuMessage(params: {
     }
   }
 
+  if (needsExtraction) {
+    ctx = { ...ctx, content: await extractContent(true) };
+  }
+
   try {
     const core = getFeishuRuntime();
 
@@ -811,11 +864,14 @@ export async function handleFeishuMessage(params: {
     const route = core.channel.routing.resolveAgentRoute({
       cfg,
       channel: "feishu",
+      accountId,
       peer: {
         kind: isGroup ? "group" : "dm",
         id: isGroup ? ctx.chatId : ctx.senderOpenId,
       },
     });
+    // Same shape as openclaw's own thread session keys: `<group session>:thread:<id>`
+    const sessionKey = threadId ? `${route.sessionKey}:thread:${threadId.toLowerCase()}` : route.sessionKey;
 
     const preview = ctx.content.replace(/\s+/g, " ").slice(0, 160);
     const inboundLabel = isGroup
@@ -823,7 +879,7 @@ export async function handleFeishuMessage(params: {
       : `Feishu DM from ${ctx.senderOpenId}`;
 
     core.system.enqueueSystemEvent(`${inboundLabel}: ${preview}`, {
-      sessionKey: route.sessionKey,
+      sessionKey,
       contextKey: `feishu:message:${ctx.chatId}:${ctx.messageId}`,
     });
 
@@ -831,6 +887,7 @@ export async function handleFeishuMessage(params: {
     const mediaMaxBytes = (feishuCfg?.mediaMaxMb ?? 30) * 1024 * 1024; // 30MB default
     let mediaList = await resolveFeishuMediaList({
       cfg,
+      accountId,
       messageId: ctx.messageId,
       messageType: event.message.message_type,
       content: event.message.content,
@@ -838,14 +895,37 @@ export async function handleFeishuMessage(params: {
       log,
     });
 
+    // Voice notes: put a transcript in the body next to the audio file
+    if (ctx.contentType === "audio" && mediaList.length > 0) {
+      const { fileKey } = parseMediaKeys(event.message.content, "audio");
+      const transcript = fileKey
+        ? await transcribeFeishuAudio({
+            cfg,
+            fileKey,
+            filePath: mediaList[0].path,
+            contentType: mediaList[0].contentType,
+            log,
+          })
+        : undefined;
+      if (transcript) {
+        ctx = { ...ctx, content: `[语音转写] ${transcript}` };
+      }
+    }
+
     // Fetch quoted/replied message content if parentId exists
     let quotedContent: string | undefined;
     let quotedImageKey: string | undefined;
     if (ctx.parentId) {
       try {
-        const quotedMsg = await getMessageFeishu({ cfg, messageId: ctx.parentId });
+        const quotedMsg = await getMessageFeishu({ cfg, accountId, messageId: ctx.parentId });
         if (quotedMsg) {
-          quotedContent = quotedMsg.content;
+          quotedContent = await extractFeishuMessageText({
+            cfg,
+            accountId,
+            messageId: quotedMsg.messageId,
+            messageType: quotedMsg.contentType,
+            content: quotedMsg.content,
+          });
           log(`feishu: fetched quoted message: ${quotedContent?.slice(0, 100)}`);
 
           // Extract image_key from quoted message if it's an image
@@ -861,6 +941,7 @@ export async function handleFeishuMessage(params: {
           // Resolve media from quoted message and merge with main media list
           const quotedMediaList = await resolveFeishuMediaList({
             cfg,
+            accountId,
             messageId: quotedMsg.messageId,
             messageType: quotedMsg.contentType,
             content: quotedMsg.content,
@@ -875,6 +956,27 @@ export async function handleFeishuMessage(params: {
       }
     }
 
+    // Images posted while the bot wasn't mentioned are only downloaded now that they may matter
+    if (isGroup && historyKey && chatHistories) {
+      const historyImages = collectHistoryImages({
+        accountId,
+        chatId: ctx.chatId,
+        entries: chatHistories.get(historyKey),
+        limit: MAX_HISTORY_IMAGES,
+      });
+      const historyMediaList = await downloadHistoryImages({
+        cfg,
+        accountId,
+        images: historyImages,
+        maxBytes: mediaMaxBytes,
+        log,
+      });
+      if (historyMediaList.length > 0) {
+        mediaList = [...mediaList, ...historyMediaList];
+        log(`feishu: resolved ${historyMediaList.length} images from group history`);
+      }
+    }
+
     // Download images for AI vision support
     const attachments: Array<{ type: "image"; data: Buffer; mimeType: string }> = [];
 
@@ -883,9 +985,11 @@ export async function handleFeishuMessage(params: {
       try {
         const result = await downloadMessageResourceFeishu({
           cfg,
+          accountId,
           messageId: ctx.messageId,
           fileKey: ctx.imageKey,
           type: "image",
+          maxBytes: mediaMaxBytes,
         });
 
         let mimeType = result.contentType || "image/jpeg";
@@ -910,9 +1014,11 @@ export async function handleFeishuMessage(params: {
       try {
         const result = await downloadMessageResourceFeishu({
           cfg,
+          accountId,
           messageId: ctx.parentId,
           fileKey: quotedImageKey,
           type: "image",
+          maxBytes: mediaMaxBytes,
         });
 
         let mimeType = result.contentType || "image/jpeg";
@@ -936,13 +1042,14 @@ export async function handleFeishuMessage(params: {
 
     const envelopeOptions = core.channel.reply.resolveEnvelopeFormatOptions(cfg);
 
-    // Check if user is requesting chat history for summarization
+    // Keyword-triggered history injection (opt-in); agents normally call feishu_chat_history
     let historyContext = "";
-    if (isGroup && isHistoryRequest(ctx.content)) {
+    if (isGroup && feishuCfg.autoFetchChatHistory === true && isHistoryRequest(ctx.content)) {
       try {
         log(`feishu: detected history request in message`);
         const historyResult = await fetchChatHistoryForAgent({
           cfg,
+          accountId,
           chatId: ctx.chatId,
           requestContent: ctx.content,
           runtime,
@@ -958,6 +1065,35 @@ export async function handleFeishuMessage(params: {
       }
     }
 
+    // First turn of a thread session: show the agent what the thread said so far
+    let threadContext = "";
+    if (threadId && historyLimit > 0) {
+      const storePath = core.channel.session.resolveStorePath(cfg.session?.store, {
+        agentId: route.agentId,
+      });
+      if (!core.channel.session.readSessionUpdatedAt({ storePath, sessionKey })) {
+        try {
+          const thread = await fetchFeishuChatHistory({
+            cfg,
+            accountId,
+            chatId: ctx.chatId,
+            threadId,
+            count: historyLimit + 1,
+          });
+          const earlier = thread.messages
+            .filter((msg) => msg.messageId !== ctx.messageId)
+            .slice(0, historyLimit)
+            .reverse();
+          if (earlier.length > 0) {
+            threadContext = `\n\n--- 话题内此前的消息 (${earlier.length} 条) ---\n${earlier.map(formatFeishuHistoryLine).join("\n")}\n--- 话题消息结束 ---\n\n`;
+            log(`feishu: included ${earlier.length} thread messages from ${threadId} in context`);
+          }
+        } catch (err) {
+          error(`feishu: failed to fetch thread history: ${String(err)}`);
+        }
+      }
+    }
+
     // Build message body with quoted content if available
     let messageBody = ctx.content;
     if (quotedContent) {
@@ -968,6 +1104,9 @@ export async function handleFeishuMessage(params: {
     if (historyContext) {
       messageBody = historyContext + messageBody;
     }
+    if (threadContext) {
+      messageBody = threadContext + messageBody;
+    }
 
     // Include a readable speaker label so the model can attribute instructions.
     // (DMs already have per-sender sessions, but the prefix is still useful for clarity.)
@@ -1001,7 +1140,7 @@ export async function handleFeishuMessage(params: {
         CommandBody: permissionNotifyBody,
         From: feishuFrom,
         To: feishuTo,
-        SessionKey: route.sessionKey,
+        SessionKey: sessionKey,
         AccountId: route.accountId,
         ChatType: isGroup ? "group" : "direct",
         GroupSubject: isGroup ? ctx.chatId : undefined,
@@ -1020,10 +1159,13 @@ export async function handleFeishuMessage(params: {
       const { dispatcher: permDispatcher, replyOptions: permReplyOptions, markDispatchIdle: markPermIdle } =
         createFeishuReplyDispatcher({
           cfg,
+          accountId,
           agentId: route.agentId,
           runtime: runtime as RuntimeEnv,
           chatId: ctx.chatId,
           replyToMessageId: ctx.messageId,
+          replyInThread: Boolean(threadId),
+          requesterOpenId: ctx.senderOpenId,
         });
 
       log(`feishu: dispatching permission error notification to agent`);
@@ -1047,7 +1189,6 @@ export async function handleFeishuMessage(params: {
     });
 
     let combinedBody = body;
-    const historyKey = isGroup ? ctx.chatId : undefined;
 
     if (isGroup && historyKey && chatHistories) {
       combinedBody = buildPendingHistoryContextFromMap({
@@ -1073,7 +1214,7 @@ export async function handleFeishuMessage(params: {
       CommandBody: ctx.content,
       From: feishuFrom,
       To: feishuTo,
-      SessionKey: route.sessionKey,
+      SessionKey: sessionKey,
       AccountId: route.accountId,
       ChatType: isGroup ? "group" : "direct",
       GroupSubject: isGroup ? ctx.chatId : undefined,
@@ -1087,6 +1228,7 @@ export async function handleFeishuMessage(params: {
       CommandAuthorized: true,
       OriginatingChannel: "feishu" as const,
       OriginatingTo: feishuTo,
+      MessageThreadId: threadId,
       ...mediaPayload,
       Attachments: attachments.length > 0 ? attachments : undefined,
     } as any);
@@ -1099,16 +1241,25 @@ export async function handleFeishuMessage(params: {
       });
     }
 
+    const botReplies: string[] = [];
+    const finalTexts: string[] = [];
     const { dispatcher, replyOptions, markDispatchIdle } = createFeishuReplyDispatcher({
       cfg,
+      accountId,
       agentId: route.agentId,
       runtime: runtime as RuntimeEnv,
       chatId: ctx.chatId,
       replyToMessageId: ctx.messageId,
+      replyInThread: Boolean(threadId),
       mentionTargets: ctx.mentionTargets,
+      requesterOpenId: ctx.senderOpenId,
+      onFinalDelivered: (payload) => {
+        botReplies.push(describeBotReplyForHistory(payload));
+        if (payload.text?.trim()) finalTexts.push(payload.text);
+      },
     });
 
-    log(`feishu: dispatching to agent (session=${route.sessionKey})`);
+    log(`feishu: dispatching to agent (session=${sessionKey})`);
 
     const { queuedFinal, counts } = await core.channel.reply.dispatchReplyFromConfig({
       ctx: ctxPayload,
@@ -1125,6 +1276,25 @@ export async function handleFeishuMessage(params: {
         historyKey,
         limit: historyLimit,
       });
+      // Start the next buffer with what the bot just said
+      recordBotRepliesToHistory({
+        historyMap: chatHistories,
+        historyKey,
+        limit: historyLimit,
+        replies: botReplies,
+      });
+    }
+
+    // Voice in, voice out (DMs only; the text reply is sent as usual)
+    if (!isGroup && ctx.contentType === "audio" && finalTexts.length > 0) {
+      await sendVoiceReplyFeishu({
+        cfg,
+        accountId,
+        to: ctx.chatId,
+        text: finalTexts.join("\n\n"),
+        replyToMessageId: ctx.messageId,
+        log,
+      });
     }
 
     log(`feishu: dispatch complete (queuedFinal=${queuedFinal}, replies=${counts.final})`);
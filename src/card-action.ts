@@ -0,0 +1,382 @@
+import type { ClawdbotConfig, RuntimeEnv } from "openclaw/plugin-sdk";
+import { getFeishuRuntime } from "./runtime.js";
+import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccount } from "./accounts.js";
+import type { FeishuConfig } from "./types.js";
+import {
+  resolveFeishuGroupConfig,
+  resolveFeishuAllowlistMatch,
+  isFeishuGroupAllowed,
+} from "./policy.js";
+import { createFeishuReplyDispatcher } from "./reply-dispatcher.js";
+import { cancelActiveRun } from "./active-runs.js";
+import { CANCEL_RUN_ACTION } from "./renderers/agent-card-view.js";
+
+/**
+ * `card.action.trigger` callback, as flattened by the SDK's EventDispatcher
+ * (header and event fields merged into one object).
+ * @see https://open.feishu.cn/document/uAjLw4CM/ukzMukzMukzM/feishu-cards/card-callback-communication
+ */
+export type FeishuCardActionEvent = {
+  token?: string;
+  operator?: {
+    open_id?: string;
+    user_id?: string;
+    union_id?: string;
+    tenant_key?: string;
+  };
+  action?: {
+    tag?: string;
+    name?: string;
+    value?: unknown;
+    option?: string;
+    options?: string[];
+    checked?: boolean;
+    input_value?: string;
+    form_value?: Record<string, unknown>;
+    timezone?: string;
+  };
+  host?: string;
+  context?: {
+    open_message_id?: string;
+    open_chat_id?: string;
+    url?: string;
+  };
+};
+
+export type FeishuToastType = "info" | "success" | "warning" | "error";
+
+/**
+ * Synchronous callback response. Feishu shows the toast to the operator and
+ * replaces the clicked card with `card` when present.
+ */
+export type FeishuCardActionResponse = {
+  toast?: { type: FeishuToastType; content: string };
+  card?: { type: "raw"; data: Record<string, unknown> };
+};
+
+export type FeishuCardActionContext = {
+  chatId: string;
+  messageId: string;
+  operatorOpenId: string;
+  tag: string;
+  name?: string;
+  value?: unknown;
+  option?: string;
+  options?: string[];
+  checked?: boolean;
+  inputValue?: string;
+  formValue?: Record<string, unknown>;
+  token?: string;
+};
+
+export function parseFeishuCardActionEvent(event: FeishuCardActionEvent): FeishuCardActionContext | null {
+  const chatId = event.context?.open_chat_id;
+  const messageId = event.context?.open_message_id;
+  const operatorOpenId = event.operator?.open_id;
+  if (!chatId || !messageId || !operatorOpenId) return null;
+
+  const action = event.action ?? {};
+  return {
+    chatId,
+    messageId,
+    operatorOpenId,
+    tag: action.tag ?? "button",
+    name: action.name,
+    value: action.value,
+    option: action.option,
+    options: action.options,
+    checked: action.checked,
+    inputValue: action.input_value,
+    formValue: action.form_value,
+    token: event.token,
+  };
+}
+
+/**
+ * Cards can declare the immediate callback response in the action value:
+ * `{ "toast": "已提交" | { "type": "success", "content": "..." }, "card": { ...card JSON } }`.
+ * Both keys are stripped before the value reaches the agent.
+ */
+function splitActionValue(value: unknown): {
+  value: unknown;
+  response?: FeishuCardActionResponse;
+} {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return { value };
+
+  const { toast, card, ...rest } = value as Record<string, unknown>;
+  const response: FeishuCardActionResponse = {};
+
+  if (typeof toast === "string" && toast.trim()) {
+    response.toast = { type: "info", content: toast };
+  } else if (toast && typeof toast === "object" && typeof (toast as any).content === "string") {
+    const t = toast as { type?: FeishuToastType; content: string };
+    response.toast = { type: t.type ?? "info", content: t.content };
+  }
+  if (card && typeof card === "object") {
+    response.card = { type: "raw", data: card as Record<string, unknown> };
+  }
+
+  return {
+    value: rest,
+    response: response.toast || response.card ? response : undefined,
+  };
+}
+
+function formatActionBody(action: FeishuCardActionContext): string {
+  const label = action.name ? `${action.tag} "${action.name}"` : action.tag;
+  const lines = [`[Card action: ${label} on message ${action.messageId}]`];
+  const isEmptyValue =
+    action.value === undefined ||
+    (typeof action.value === "object" && action.value !== null && Object.keys(action.value).length === 0);
+  if (!isEmptyValue) lines.push(`value: ${JSON.stringify(action.value)}`);
+  if (action.option !== undefined) lines.push(`option: ${action.option}`);
+  if (action.options?.length) lines.push(`options: ${JSON.stringify(action.options)}`);
+  if (action.checked !== undefined) lines.push(`checked: ${action.checked}`);
+  if (action.inputValue !== undefined) lines.push(`input: ${action.inputValue}`);
+  if (action.formValue) lines.push(`form: ${JSON.stringify(action.formValue)}`);
+  return lines.join("\n");
+}
+
+// Card callbacks carry no chat type, so look it up once per chat.
+const chatTypeCache = new Map<string, "p2p" | "group">();
+
+/** Drop cached state for a chat the bot has left. */
+export function forgetCardActionChat(accountId: string, chatId: string): void {
+  chatTypeCache.delete(`${accountId}:${chatId}`);
+}
+
+async function resolveChatType(params: {
+  cfg: ClawdbotConfig;
+  accountId: string;
+  chatId: string;
+}): Promise<"p2p" | "group"> {
+  const { cfg, accountId, chatId } = params;
+  const cacheKey = `${accountId}:${chatId}`;
+  const cached = chatTypeCache.get(cacheKey);
+  if (cached) return cached;
+
+  const account = resolveFeishuAccount({ cfg, accountId });
+  const client = createFeishuClient(account.config, account.accountId);
+  const response = (await client.im.chat.get({
+    path: { chat_id: chatId },
+  })) as { code?: number; msg?: string; data?: { chat_mode?: string } };
+
+  if (response.code !== 0) {
+    throw new Error(`Feishu get chat failed: ${response.msg || `code ${response.code}`}`);
+  }
+
+  const chatType = response.data?.chat_mode === "p2p" ? "p2p" : "group";
+  chatTypeCache.set(cacheKey, chatType);
+  return chatType;
+}
+
+/**
+ * Handle a card interaction (button, select, form submit...) as an inbound agent turn.
+ * Returns the synchronous callback response; the agent's answer is sent as a reply
+ * to the card message, since the callback must be answered within 3 seconds.
+ */
+export async function handleFeishuCardAction(params: {
+  cfg: ClawdbotConfig;
+  event: FeishuCardActionEvent;
+  accountId?: string;
+  runtime?: RuntimeEnv;
+}): Promise<FeishuCardActionResponse | undefined> {
+  const { cfg, event, runtime } = params;
+  const account = resolveFeishuAccount({ cfg, accountId: params.accountId });
+  const accountId = account.accountId;
+  const feishuCfg = account.config;
+  const log = runtime?.log ?? console.log;
+  const error = runtime?.error ?? console.error;
+
+  const parsed = parseFeishuCardActionEvent(event);
+  if (!parsed) {
+    log("feishu: card action without chat/message context, ignoring");
+    return undefined;
+  }
+
+  if ((parsed.value as { feishu_action?: string } | undefined)?.feishu_action === CANCEL_RUN_ACTION) {
+    const access = await resolveCardActionAccess({ cfg, accountId, feishuCfg, action: parsed, log }).catch(
+      (err) => {
+        error(`feishu: failed to check stop request: ${String(err)}`);
+        return null;
+      },
+    );
+    if (!access) return { toast: { type: "warning", content: "无权停止该任务" } };
+
+    const result = cancelActiveRun(parsed.messageId, parsed.operatorOpenId);
+    log(`feishu: stop requested by ${parsed.operatorOpenId} for card ${parsed.messageId} (${result})`);
+    if (result === "forbidden") return { toast: { type: "warning", content: "只有发起者可以停止该任务" } };
+    return { toast: { type: "info", content: result === "canceled" ? "已停止" : "任务已结束" } };
+  }
+
+  const { value, response } = splitActionValue(parsed.value);
+  const action: FeishuCardActionContext = { ...parsed, value };
+
+  log(`feishu: card action ${action.tag} from ${action.operatorOpenId} on message ${action.messageId}`);
+
+  void dispatchCardAction({ cfg, accountId, feishuCfg, action, runtime }).catch((err) => {
+    error(`feishu: failed to dispatch card action: ${String(err)}`);
+  });
+
+  return response;
+}
+
+/**
+ * Apply the same DM/group policy as inbound messages to the card's operator.
+ * @returns null when the operator may not act on cards in this chat
+ */
+async function resolveCardActionAccess(params: {
+  cfg: ClawdbotConfig;
+  accountId: string;
+  feishuCfg: FeishuConfig;
+  action: FeishuCardActionContext;
+  log: (message: string) => void;
+}): Promise<{ isGroup: boolean } | null> {
+  const { cfg, accountId, feishuCfg, action, log } = params;
+  const chatType = await resolveChatType({ cfg, accountId, chatId: action.chatId });
+  const isGroup = chatType === "group";
+
+  if (isGroup) {
+    const groupAllowed = isFeishuGroupAllowed({
+      groupPolicy: feishuCfg.groupPolicy ?? "open",
+      allowFrom: feishuCfg.groupAllowFrom ?? [],
+      senderId: action.chatId,
+      senderName: undefined,
+    });
+    if (!groupAllowed) {
+      log(`feishu: group ${action.chatId} not in allowlist, ignoring card action`);
+      return null;
+    }
+
+    const senderAllowFrom =
+      resolveFeishuGroupConfig({ cfg: feishuCfg, groupId: action.chatId })?.allowFrom ?? [];
+    if (senderAllowFrom.length > 0) {
+      const senderAllowed = isFeishuGroupAllowed({
+        groupPolicy: "allowlist",
+        allowFrom: senderAllowFrom,
+        senderId: action.operatorOpenId,
+      });
+      if (!senderAllowed) {
+        log(`feishu: operator ${action.operatorOpenId} not in group ${action.chatId} sender allowlist`);
+        return null;
+      }
+    }
+  } else {
+    const dmPolicy = feishuCfg.dmPolicy ?? "pairing";
+    if (dmPolicy !== "open") {
+      // Approved pairings live in openclaw's store, not in the config
+      const storeAllowFrom =
+        dmPolicy === "pairing"
+          ? await getFeishuRuntime().channel.pairing.readAllowFromStore("feishu").catch(() => [] as string[])
+          : [];
+      const match = resolveFeishuAllowlistMatch({
+        allowFrom: [...(feishuCfg.allowFrom ?? []), ...storeAllowFrom],
+        senderId: action.operatorOpenId,
+      });
+      if (!match.allowed) {
+        log(`feishu: operator ${action.operatorOpenId} not allowed by dmPolicy=${dmPolicy}, ignoring card action`);
+        return null;
+      }
+    }
+  }
+
+  return { isGroup };
+}
+
+async function dispatchCardAction(params: {
+  cfg: ClawdbotConfig;
+  accountId: string;
+  feishuCfg: FeishuConfig;
+  action: FeishuCardActionContext;
+  runtime?: RuntimeEnv;
+}): Promise<void> {
+  const { cfg, accountId, feishuCfg, action, runtime } = params;
+  const log = runtime?.log ?? console.log;
+
+  const core = getFeishuRuntime();
+  const access = await resolveCardActionAccess({ cfg, accountId, feishuCfg, action, log });
+  if (!access) return;
+  const { isGroup } = access;
+
+  const feishuFrom = `feishu:${action.operatorOpenId}`;
+  const feishuTo = isGroup ? `chat:${action.chatId}` : `user:${action.operatorOpenId}`;
+
+  const route = core.channel.routing.resolveAgentRoute({
+    cfg,
+    channel: "feishu",
+    accountId,
+    peer: {
+      kind: isGroup ? "group" : "dm",
+      id: isGroup ? action.chatId : action.operatorOpenId,
+    },
+  });
+
+  const rawBody = formatActionBody(action);
+  const envelopeFrom = isGroup ? `${action.chatId}:${action.operatorOpenId}` : action.operatorOpenId;
+  const body = core.channel.reply.formatAgentEnvelope({
+    channel: "Feishu",
+    from: envelopeFrom,
+    timestamp: new Date(),
+    envelope: core.channel.reply.resolveEnvelopeFormatOptions(cfg),
+    body: `${action.operatorOpenId}: ${rawBody}`,
+  });
+
+  const ctxPayload = core.channel.reply.finalizeInboundContext({
+    Body: body,
+    RawBody: rawBody,
+    CommandBody: rawBody,
+    From: feishuFrom,
+    To: feishuTo,
+    SessionKey: route.sessionKey,
+    AccountId: route.accountId,
+    ChatType: isGroup ? "group" : "direct",
+    GroupSubject: isGroup ? action.chatId : undefined,
+    SenderName: action.operatorOpenId,
+    SenderId: action.operatorOpenId,
+    Provider: "feishu" as const,
+    Surface: "feishu" as const,
+    MessageSid: `${action.messageId}:action:${action.token ?? Date.now()}`,
+    ReplyToId: action.messageId,
+    Timestamp: Date.now(),
+    WasMentioned: true,
+    CommandAuthorized: true,
+    OriginatingChannel: "feishu" as const,
+    OriginatingTo: feishuTo,
+    CardAction: {
+      tag: action.tag,
+      name: action.name,
+      value: action.value,
+      option: action.option,
+      options: action.options,
+      checked: action.checked,
+      inputValue: action.inputValue,
+      formValue: action.formValue,
+      messageId: action.messageId,
+      operatorOpenId: action.operatorOpenId,
+    },
+  } as any);
+
+  const { dispatcher, replyOptions, markDispatchIdle } = createFeishuReplyDispatcher({
+    cfg,
+    accountId,
+    agentId: route.agentId,
+    runtime: runtime as RuntimeEnv,
+    chatId: action.chatId,
+    replyToMessageId: action.messageId,
+    requesterOpenId: action.operatorOpenId,
+  });
+
+  log(`feishu: dispatching card action to agent (session=${route.sessionKey})`);
+
+  const { queuedFinal, counts } = await core.channel.reply.dispatchReplyFromConfig({
+    ctx: ctxPayload,
+    cfg,
+    dispatcher,
+    replyOptions,
+  });
+
+  markDispatchIdle();
+
+  log(`feishu: card action dispatch complete (queuedFinal=${queuedFinal}, replies=${counts.final})`);
+}
@@ -0,0 +1,115 @@
+import type { ClawdbotConfig } from "openclaw/plugin-sdk";
+import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccount } from "./accounts.js";
+
+// CardKit card entities: a card is created once, sent by card_id, and then
+// updated in place. Every update carries a strictly increasing `sequence`.
+// @see https://open.feishu.cn/document/cardkit-v1/streaming-updates-openapi-overview
+
+function resolveClient(cfg: ClawdbotConfig, accountId?: string) {
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
+  }
+  return createFeishuClient(account.config, account.accountId);
+}
+
+/**
+ * Create a card entity from card JSON (schema 2.0).
+ * Send it with `sendCardFeishu({ card: buildCardEntityContent(cardId) })`.
+ */
+export async function createCardEntityFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  card: Record<string, unknown>;
+}): Promise<{ cardId: string }> {
+  const { cfg, accountId, card } = params;
+  const client = resolveClient(cfg, accountId);
+
+  const response = await client.cardkit.v1.card.create({
+    data: { type: "card_json", data: JSON.stringify(card) },
+  });
+
+  if (response.code !== 0) {
+    throw new Error(`Feishu card entity create failed: ${response.msg || `code ${response.code}`}`);
+  }
+
+  const cardId = response.data?.card_id;
+  if (!cardId) {
+    throw new Error("Feishu card entity create failed: no card_id returned");
+  }
+
+  return { cardId };
+}
+
+/** Message content that references a card entity instead of inlining the card JSON. */
+export function buildCardEntityContent(cardId: string): Record<string, unknown> {
+  return { type: "card", data: { card_id: cardId } };
+}
+
+/** Replace the whole card entity. */
+export async function updateCardEntityFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  cardId: string;
+  card: Record<string, unknown>;
+  sequence: number;
+}): Promise<void> {
+  const { cfg, accountId, cardId, card, sequence } = params;
+  const client = resolveClient(cfg, accountId);
+
+  const response = await client.cardkit.v1.card.update({
+    path: { card_id: cardId },
+    data: { card: { type: "card_json", data: JSON.stringify(card) }, sequence },
+  });
+
+  if (response.code !== 0) {
+    throw new Error(`Feishu card entity update failed: ${response.msg || `code ${response.code}`}`);
+  }
+}
+
+/**
+ * Stream text into a markdown/plain_text element. `content` is the full text so far;
+ * when it extends the previous content Feishu animates only the new part.
+ */
+export async function streamCardElementFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  cardId: string;
+  elementId: string;
+  content: string;
+  sequence: number;
+}): Promise<void> {
+  const { cfg, accountId, cardId, elementId, content, sequence } = params;
+  const client = resolveClient(cfg, accountId);
+
+  const response = await client.cardkit.v1.cardElement.content({
+    path: { card_id: cardId, element_id: elementId },
+    data: { content, sequence },
+  });
+
+  if (response.code !== 0) {
+    throw new Error(`Feishu card element stream failed: ${response.msg || `code ${response.code}`}`);
+  }
+}
+
+/** Toggle streaming mode. Cards left in streaming mode stop accepting updates after a timeout. */
+export async function setCardStreamingModeFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  cardId: string;
+  streaming: boolean;
+  sequence: number;
+}): Promise<void> {
+  const { cfg, accountId, cardId, streaming, sequence } = params;
+  const client = resolveClient(cfg, accountId);
+
+  const response = await client.cardkit.v1.card.settings({
+    path: { card_id: cardId },
+    data: { settings: JSON.stringify({ config: { streaming_mode: streaming } }), sequence },
+  });
+
+  if (response.code !== 0) {
+    throw new Error(`Feishu card settings update failed: ${response.msg || `code ${response.code}`}`);
+  }
+}
@@ -1,7 +1,17 @@
-import type { ChannelPlugin, ClawdbotConfig } from "openclaw/plugin-sdk";
-import { DEFAULT_ACCOUNT_ID, PAIRING_APPROVED_MESSAGE } from "openclaw/plugin-sdk";
-import type { ResolvedFeishuAccount, FeishuConfig } from "./types.js";
-import { resolveFeishuAccount, resolveFeishuCredentials } from "./accounts.js";
+import type { ChannelPlugin } from "openclaw/plugin-sdk";
+import {
+  DEFAULT_ACCOUNT_ID,
+  PAIRING_APPROVED_MESSAGE,
+  deleteAccountFromConfigSection,
+  normalizeAccountId,
+  setAccountEnabledInConfigSection,
+} from "openclaw/plugin-sdk";
+import type { ResolvedFeishuAccount } from "./types.js";
+import {
+  listFeishuAccountIds,
+  resolveDefaultFeishuAccountId,
+  resolveFeishuAccount,
+} from "./accounts.js";
 import { feishuOutbound } from "./outbound.js";
 import { probeFeishu } from "./probe.js";
 import { resolveFeishuGroupToolPolicy } from "./policy.js";
@@ -26,6 +36,44 @@ const meta = {
   order: 70,
 } as const;
 
+// Fields that may be set both at the top level and per account.
+const accountConfigProperties = {
+  enabled: { type: "boolean" },
+  name: { type: "string" },
+  appId: { type: "string" },
+  appSecret: { type: "string" },
+  encryptKey: { type: "string" },
+  verificationToken: { type: "string" },
+  domain: { type: "string", enum: ["feishu", "lark"] },
+  connectionMode: { type: "string", enum: ["websocket", "webhook"] },
+  webhookPath: { type: "string" },
+  webhookPort: { type: "integer", minimum: 1 },
+  dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
+  allowFrom: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
+  groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
+  groupAllowFrom: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
+  requireMention: { type: "boolean" },
+  historyLimit: { type: "integer", minimum: 0 },
+  autoFetchChatHistory: { type: "boolean" },
+  threadSessions: { type: "boolean" },
+  ffmpegPath: { type: "string" },
+  dmHistoryLimit: { type: "integer", minimum: 0 },
+  mediaMaxMb: { type: "number", minimum: 0 },
+  renderMode: { type: "string", enum: ["auto", "raw", "card", "post"] },
+  renderEngine: { type: "string", enum: ["simple", "agent-card", "agent-card-stream"] },
+  toolLinePatterns: { type: "array", items: { type: "string" } },
+  groupLifecycle: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      welcomeMessage: { type: "string" },
+      welcomeCard: { type: "object" },
+      adminNotify: { type: "array", items: { type: "string" } },
+      leaveUnallowedGroups: { type: "boolean" },
+    },
+  },
+};
+
 export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
   id: "feishu",
   meta: {
@@ -34,9 +82,10 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
   pairing: {
     idLabel: "feishuUserId",
     normalizeAllowEntry: (entry) => entry.replace(/^(feishu|user|open_id):/i, ""),
-    notifyApproval: async ({ cfg, id }) => {
+    notifyApproval: async ({ cfg, id, accountId }) => {
       await sendMessageFeishu({
         cfg,
+        accountId: accountId ?? undefined,
         to: id,
         text: PAIRING_APPROVED_MESSAGE,
       });
@@ -55,6 +104,8 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
     messageToolHints: () => [
       "- Feishu targeting: omit `target` to reply to the current conversation (auto-inferred). Explicit targets: `user:open_id` or `chat:chat_id`.",
       "- Feishu supports interactive cards for rich messages.",
+      "- Feishu card clicks (buttons, selects, form submits) arrive as `[Card action: ...]` messages carrying the action value, form values and the card's message id.",
+      "- Feishu media: a web page URL is sent as a link preview card; received stickers show as `<media:sticker> sticker:<file_key>`; send that `sticker:<file_key>` as media to re-send the sticker.",
     ],
   },
   groups: {
@@ -66,64 +117,90 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
       type: "object",
       additionalProperties: false,
       properties: {
-        enabled: { type: "boolean" },
-        appId: { type: "string" },
-        appSecret: { type: "string" },
-        encryptKey: { type: "string" },
-        verificationToken: { type: "string" },
-        domain: { type: "string", enum: ["feishu", "lark"] },
-        connectionMode: { type: "string", enum: ["websocket", "webhook"] },
-        webhookPath: { type: "string" },
-        webhookPort: { type: "integer", minimum: 1 },
-        dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
-        allowFrom: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
-        groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
-        groupAllowFrom: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
-        requireMention: { type: "boolean" },
-        historyLimit: { type: "integer", minimum: 0 },
-        dmHistoryLimit: { type: "integer", minimum: 0 },
+        ...accountConfigProperties,
         textChunkLimit: { type: "integer", minimum: 1 },
         chunkMode: { type: "string", enum: ["length", "newline"] },
-        mediaMaxMb: { type: "number", minimum: 0 },
-        renderMode: { type: "string", enum: ["auto", "raw", "card"] },
-        renderEngine: { type: "string", enum: ["simple", "agent-card"] },
+        dedup: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            store: { type: "string", enum: ["file", "memory"] },
+            path: { type: "string" },
+            ttlHours: { type: "number", exclusiveMinimum: 0 },
+            maxEntries: { type: "integer", minimum: 1 },
+          },
+        },
+        stt: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            enabled: { type: "boolean" },
+            provider: { type: "string", enum: ["command", "openai"] },
+            command: { type: "string" },
+            ffmpegPath: { type: "string" },
+            convertToWav: { type: "boolean" },
+            baseUrl: { type: "string" },
+            apiKey: { type: "string" },
+            model: { type: "string" },
+            language: { type: "string" },
+            timeoutSec: { type: "integer", minimum: 1 },
+          },
+        },
+        tts: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            enabled: { type: "boolean" },
+            provider: { type: "string", enum: ["command", "openai"] },
+            command: { type: "string" },
+            outputExtension: { type: "string" },
+            baseUrl: { type: "string" },
+            apiKey: { type: "string" },
+            model: { type: "string" },
+            voice: { type: "string" },
+            maxChars: { type: "integer", minimum: 1 },
+            timeoutSec: { type: "integer", minimum: 1 },
+          },
+        },
+        defaultAccount: { type: "string" },
+        accounts: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            properties: accountConfigProperties,
+          },
+        },
       },
     },
   },
   config: {
-    listAccountIds: () => [DEFAULT_ACCOUNT_ID],
-    resolveAccount: (cfg) => resolveFeishuAccount({ cfg }),
-    defaultAccountId: () => DEFAULT_ACCOUNT_ID,
-    setAccountEnabled: ({ cfg, enabled }) => ({
-      ...cfg,
-      channels: {
-        ...cfg.channels,
-        feishu: {
-          ...cfg.channels?.feishu,
-          enabled,
-        },
-      },
-    }),
-    deleteAccount: ({ cfg }) => {
-      const next = { ...cfg } as ClawdbotConfig;
-      const nextChannels = { ...cfg.channels };
-      delete (nextChannels as Record<string, unknown>).feishu;
-      if (Object.keys(nextChannels).length > 0) {
-        next.channels = nextChannels;
-      } else {
-        delete next.channels;
-      }
-      return next;
-    },
-    isConfigured: (_account, cfg) =>
-      Boolean(resolveFeishuCredentials(cfg.channels?.feishu as FeishuConfig | undefined)),
+    listAccountIds: (cfg) => listFeishuAccountIds(cfg),
+    resolveAccount: (cfg, accountId) => resolveFeishuAccount({ cfg, accountId }),
+    defaultAccountId: (cfg) => resolveDefaultFeishuAccountId(cfg),
+    setAccountEnabled: ({ cfg, accountId, enabled }) =>
+      setAccountEnabledInConfigSection({
+        cfg,
+        sectionKey: "feishu",
+        accountId,
+        enabled,
+        allowTopLevel: true,
+      }),
+    deleteAccount: ({ cfg, accountId }) =>
+      deleteAccountFromConfigSection({
+        cfg,
+        sectionKey: "feishu",
+        accountId,
+        clearBaseFields: ["appId", "appSecret", "encryptKey", "verificationToken", "name"],
+      }),
+    isConfigured: (account) => account.configured,
     describeAccount: (account) => ({
       accountId: account.accountId,
+      name: account.name,
       enabled: account.enabled,
       configured: account.configured,
     }),
-    resolveAllowFrom: ({ cfg }) =>
-      (cfg.channels?.feishu as FeishuConfig | undefined)?.allowFrom ?? [],
+    resolveAllowFrom: ({ cfg, accountId }) =>
+      resolveFeishuAccount({ cfg, accountId }).config.allowFrom ?? [],
     formatAllowFrom: ({ allowFrom }) =>
       allowFrom
         .map((entry) => String(entry).trim())
@@ -131,10 +208,10 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
         .map((entry) => entry.toLowerCase()),
   },
   security: {
-    collectWarnings: ({ cfg }) => {
-      const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
+    collectWarnings: ({ cfg, account }) => {
+      const feishuCfg = account.config;
       const defaultGroupPolicy = (cfg.channels as Record<string, { groupPolicy?: string }> | undefined)?.defaults?.groupPolicy;
-      const groupPolicy = feishuCfg?.groupPolicy ?? defaultGroupPolicy ?? "allowlist";
+      const groupPolicy = feishuCfg.groupPolicy ?? defaultGroupPolicy ?? "allowlist";
       if (groupPolicy !== "open") return [];
       return [
         `- Feishu groups: groupPolicy="open" allows any member to trigger (mention-gated). Set channels.feishu.groupPolicy="allowlist" + channels.feishu.groupAllowFrom to restrict senders.`,
@@ -142,17 +219,15 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
     },
   },
   setup: {
-    resolveAccountId: () => DEFAULT_ACCOUNT_ID,
-    applyAccountConfig: ({ cfg }) => ({
-      ...cfg,
-      channels: {
-        ...cfg.channels,
-        feishu: {
-          ...cfg.channels?.feishu,
-          enabled: true,
-        },
-      },
-    }),
+    resolveAccountId: ({ accountId }) => normalizeAccountId(accountId),
+    applyAccountConfig: ({ cfg, accountId }) =>
+      setAccountEnabledInConfigSection({
+        cfg,
+        sectionKey: "feishu",
+        accountId,
+        enabled: true,
+        allowTopLevel: true,
+      }),
   },
   onboarding: feishuOnboardingAdapter,
   messaging: {
@@ -164,14 +239,14 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
   },
   directory: {
     self: async () => null,
-    listPeers: async ({ cfg, query, limit }) =>
-      listFeishuDirectoryPeers({ cfg, query, limit }),
-    listGroups: async ({ cfg, query, limit }) =>
-      listFeishuDirectoryGroups({ cfg, query, limit }),
-    listPeersLive: async ({ cfg, query, limit }) =>
-      listFeishuDirectoryPeersLive({ cfg, query, limit }),
-    listGroupsLive: async ({ cfg, query, limit }) =>
-      listFeishuDirectoryGroupsLive({ cfg, query, limit }),
+    listPeers: async ({ cfg, accountId, query, limit }) =>
+      listFeishuDirectoryPeers({ cfg, accountId, query, limit }),
+    listGroups: async ({ cfg, accountId, query, limit }) =>
+      listFeishuDirectoryGroups({ cfg, accountId, query, limit }),
+    listPeersLive: async ({ cfg, accountId, query, limit }) =>
+      listFeishuDirectoryPeersLive({ cfg, accountId, query, limit }),
+    listGroupsLive: async ({ cfg, accountId, query, limit }) =>
+      listFeishuDirectoryGroupsLive({ cfg, accountId, query, limit }),
   },
   outbound: feishuOutbound,
   status: {
@@ -193,10 +268,10 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
       probe: snapshot.probe,
       lastProbeAt: snapshot.lastProbeAt ?? null,
     }),
-    probeAccount: async ({ cfg }) =>
-      await probeFeishu(cfg.channels?.feishu as FeishuConfig | undefined),
+    probeAccount: async ({ account }) => await probeFeishu(account.config, account.accountId),
     buildAccountSnapshot: ({ account, runtime, probe }) => ({
       accountId: account.accountId,
+      name: account.name,
       enabled: account.enabled,
       configured: account.configured,
       running: runtime?.running ?? false,
@@ -210,10 +285,12 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
   gateway: {
     startAccount: async (ctx) => {
       const { monitorFeishuProvider } = await import("./monitor.js");
-      const feishuCfg = ctx.cfg.channels?.feishu as FeishuConfig | undefined;
-      const port = feishuCfg?.webhookPort ?? null;
+      const feishuCfg = ctx.account.config;
+      const port = feishuCfg.webhookPort ?? null;
       ctx.setStatus({ accountId: ctx.accountId, port });
-      ctx.log?.info(`starting feishu provider (mode: ${feishuCfg?.connectionMode ?? "websocket"})`);
+      ctx.log?.info(
+        `starting feishu provider [${ctx.accountId}] (mode: ${feishuCfg.connectionMode ?? "websocket"})`,
+      );
       return monitorFeishuProvider({
         config: ctx.cfg,
         runtime: ctx.runtime,
@@ -0,0 +1,35 @@
+import { Type, type Static } from "@sinclair/typebox";
+
+export const FeishuChatHistorySchema = Type.Object({
+  chat_id: Type.Optional(
+    Type.String({
+      description:
+        "Chat ID (oc_xxx). Omit to read the group chat of the current conversation; other chats must be allowed in the channel config",
+    }),
+  ),
+  thread_id: Type.Optional(
+    Type.String({ description: "Only read this thread/topic (omt_xxx) of the chat" }),
+  ),
+  start_time: Type.Optional(
+    Type.String({
+      description: "Only messages at or after this time: ISO 8601 (e.g. 2024-05-01T09:00:00+08:00) or Unix seconds",
+    }),
+  ),
+  end_time: Type.Optional(
+    Type.String({ description: "Only messages at or before this time: ISO 8601 or Unix seconds" }),
+  ),
+  senders: Type.Optional(
+    Type.Array(Type.String(), {
+      description: "Only messages from these senders: open_id (ou_xxx) or display name",
+    }),
+  ),
+  count: Type.Optional(
+    Type.Integer({
+      description: "Maximum number of messages to return, newest first (default 50, max 500)",
+      minimum: 1,
+      maximum: 500,
+    }),
+  ),
+});
+
+export type FeishuChatHistoryParams = Static<typeof FeishuChatHistorySchema>;
@@ -0,0 +1,222 @@
+import type {
+  ClawdbotConfig,
+  OpenClawPluginApi,
+  OpenClawPluginToolContext,
+} from "openclaw/plugin-sdk";
+import { listEnabledFeishuAccounts } from "./accounts.js";
+import { listMessagesFeishu } from "./send.js";
+import { resolveUserName } from "./message-content.js";
+import type { FeishuConfig, FeishuHistoryMessage } from "./types.js";
+import { FeishuChatHistorySchema, type FeishuChatHistoryParams } from "./chat-history-schema.js";
+import { resolveToolsConfig } from "./tools-config.js";
+
+export type FeishuChatHistoryEntry = FeishuHistoryMessage & {
+  /** Display name, "[Bot]" for app messages, or the raw id if it can't be resolved */
+  senderName: string;
+};
+
+export type ChatHistoryResult = {
+  /** Newest first */
+  messages: FeishuChatHistoryEntry[];
+  total: number;
+  hasMore: boolean;
+  /** Chronological transcript, one `[time] sender: content` line per message */
+  formatted: string;
+};
+
+const DEFAULT_HISTORY_COUNT = 50;
+// Upper bound on messages read while looking for sender matches
+const MAX_SCANNED_MESSAGES = 2000;
+
+/** Accepts ISO 8601 or Unix seconds/milliseconds; returns Unix seconds as the list API wants. */
+export function toFeishuTimestamp(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  if (/^\d+$/.test(trimmed)) {
+    const num = Number(trimmed);
+    return String(num > 1e12 ? Math.floor(num / 1000) : num);
+  }
+  const ms = Date.parse(trimmed);
+  if (Number.isNaN(ms)) throw new Error(`Invalid time: ${value}`);
+  return String(Math.floor(ms / 1000));
+}
+
+function withinTimeRange(createTimeMs: number, startTime?: string, endTime?: string) {
+  if (startTime && createTimeMs < Number(startTime) * 1000) return false;
+  if (endTime && createTimeMs > Number(endTime) * 1000) return false;
+  return true;
+}
+
+export function formatFeishuHistoryLine(msg: FeishuChatHistoryEntry) {
+  const time = new Date(msg.createTime).toLocaleString("zh-CN", {
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return `[${time}] ${msg.senderName}: ${msg.content}`;
+}
+
+/**
+ * Read a chat's recent messages with sender names resolved, optionally limited to a
+ * time range and to some senders (matched by open_id or display name). With `threadId`
+ * only that thread (topic) is read.
+ */
+export async function fetchFeishuChatHistory(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  chatId: string;
+  threadId?: string;
+  count?: number;
+  /** Unix seconds */
+  startTime?: string;
+  /** Unix seconds */
+  endTime?: string;
+  senders?: string[];
+}): Promise<ChatHistoryResult> {
+  const { cfg, accountId, chatId, threadId, startTime, endTime } = params;
+  const count = params.count ?? DEFAULT_HISTORY_COUNT;
+  const senders = new Set((params.senders ?? []).map((s) => s.trim().toLowerCase()).filter(Boolean));
+
+  const messages: FeishuChatHistoryEntry[] = [];
+  let pageToken: string | undefined;
+  let hasMore = true;
+  let scanned = 0;
+
+  while (hasMore && messages.length < count && scanned < MAX_SCANNED_MESSAGES) {
+    const page = await listMessagesFeishu({
+      cfg,
+      accountId,
+      chatId,
+      threadId,
+      // Filtering discards messages, so read full pages
+      count: senders.size > 0 ? 50 : Math.min(50, count),
+      startTime,
+      endTime,
+      pageToken,
+      sortType: "ByCreateTimeDesc",
+    });
+    scanned += page.messages.length;
+
+    for (const msg of page.messages) {
+      if (msg.deleted || !msg.content.trim()) continue;
+      // Thread listing ignores the time range, so apply it here
+      if (threadId && !withinTimeRange(msg.createTime, startTime, endTime)) continue;
+      const senderName =
+        msg.senderType === "app"
+          ? "[Bot]"
+          : ((msg.senderId && (await resolveUserName(cfg, accountId, msg.senderId))) ?? msg.senderId);
+      if (
+        senders.size > 0 &&
+        !senders.has(msg.senderId.toLowerCase()) &&
+        !senders.has(senderName.toLowerCase())
+      ) {
+        continue;
+      }
+      messages.push({ ...msg, senderName });
+      if (messages.length >= count) break;
+    }
+
+    hasMore = page.hasMore && Boolean(page.pageToken);
+    pageToken = page.pageToken;
+  }
+
+  const formatted = [...messages].reverse().map(formatFeishuHistoryLine).join("\n");
+  return { messages, total: messages.length, hasMore, formatted };
+}
+
+// ============ Tool Registration ============
+
+function json(data: unknown) {
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+    details: data,
+  };
+}
+
+// Group sessions are keyed by chat, e.g. `agent:main:feishu:group:oc_xxx`
+function resolveSessionChatId(ctx: OpenClawPluginToolContext): string | undefined {
+  if (ctx.messageChannel !== "feishu") return undefined;
+  return /(?:^|:)(oc_[\w-]+)/.exec(ctx.sessionKey ?? "")?.[1];
+}
+
+export function registerFeishuChatHistoryTools(api: OpenClawPluginApi) {
+  if (!api.config || listEnabledFeishuAccounts(api.config).length === 0) {
+    api.logger.debug?.("feishu_chat_history: Feishu credentials not configured, skipping");
+    return;
+  }
+  const feishuCfg = api.config.channels?.feishu as FeishuConfig | undefined;
+
+  const toolsCfg = resolveToolsConfig(feishuCfg?.tools);
+  if (!toolsCfg.chatHistory) {
+    api.logger.debug?.("feishu_chat_history: chat history tool disabled in config");
+    return;
+  }
+
+  api.registerTool(
+    (ctx: OpenClawPluginToolContext) => ({
+      name: "feishu_chat_history",
+      label: "Feishu Chat History",
+      description:
+        "Read messages of a Feishu chat the bot is in, with sender names. " +
+        "Use it to summarize or look up earlier discussion. Filters: time range, senders, count.",
+      parameters: FeishuChatHistorySchema,
+      async execute(_toolCallId, params) {
+        const p = params as FeishuChatHistoryParams;
+        try {
+          // Only the conversation's own group, unless the chat is explicitly allowed
+          const sessionChatId = resolveSessionChatId(ctx);
+          const requested = p.chat_id?.trim();
+          const chatId = requested || sessionChatId;
+          if (!chatId) {
+            return json({ error: "chat_id is required outside of a Feishu group conversation" });
+          }
+          if (chatId !== sessionChatId && !toolsCfg.chatHistoryAllowChats.includes(chatId)) {
+            return json({
+              error: `Reading ${chatId} is not allowed from this conversation; add it to channels.feishu.tools.chatHistoryAllowChats`,
+            });
+          }
+          const result = await fetchFeishuChatHistory({
+            cfg: api.config,
+            accountId: ctx.messageChannel === "feishu" ? ctx.agentAccountId : undefined,
+            chatId,
+            threadId: p.thread_id?.trim() || undefined,
+            count: p.count,
+            startTime: toFeishuTimestamp(p.start_time),
+            endTime: toFeishuTimestamp(p.end_time),
+            senders: p.senders,
+          });
+          const details = {
+            chat_id: chatId,
+            total: result.total,
+            has_more: result.hasMore,
+            messages: [...result.messages].reverse().map((msg) => ({
+              message_id: msg.messageId,
+              time: new Date(msg.createTime).toISOString(),
+              sender: msg.senderName,
+              sender_id: msg.senderId,
+              type: msg.contentType,
+              content: msg.content,
+            })),
+          };
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: result.formatted
+                  ? `${result.total} messages in ${chatId}${result.hasMore ? " (older messages exist)" : ""}:\n${result.formatted}`
+                  : `No messages found in ${chatId}`,
+              },
+            ],
+            details,
+          };
+        } catch (err) {
+          return json({ error: err instanceof Error ? err.message : String(err) });
+        }
+      },
+    }),
+    { name: "feishu_chat_history" },
+  );
+
+  api.logger.info?.(`feishu_chat_history: Registered feishu_chat_history tool`);
+}
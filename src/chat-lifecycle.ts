@@ -0,0 +1,175 @@
+import type { ClawdbotConfig, RuntimeEnv, HistoryEntry } from "openclaw/plugin-sdk";
+import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccount } from "./accounts.js";
+import { isFeishuGroupAllowed } from "./policy.js";
+import {
+  sendCardFeishu,
+  sendMarkdownCardFeishu,
+  sendMarkdownPostFeishu,
+  sendMessageFeishu,
+} from "./send.js";
+import { forgetCardActionChat } from "./card-action.js";
+import { forgetHistoryImages } from "./group-history.js";
+
+/**
+ * `im.chat.member.bot.added_v1` / `im.chat.member.bot.deleted_v1`, as flattened by the
+ * SDK's EventDispatcher.
+ * @see https://open.feishu.cn/document/server-docs/group/chat-member/event/added-2
+ */
+export type FeishuBotMembershipEvent = {
+  chat_id: string;
+  operator_id?: {
+    open_id?: string;
+    user_id?: string;
+    union_id?: string;
+  };
+  external?: boolean;
+  operator_tenant_key?: string;
+  name?: string;
+};
+
+async function resolveChatName(params: {
+  cfg: ClawdbotConfig;
+  accountId: string;
+  chatId: string;
+}): Promise<string | undefined> {
+  const { cfg, accountId, chatId } = params;
+  try {
+    const account = resolveFeishuAccount({ cfg, accountId });
+    const client = createFeishuClient(account.config, account.accountId);
+    const response = (await client.im.chat.get({
+      path: { chat_id: chatId },
+    })) as { code?: number; data?: { name?: string } };
+    return response.code === 0 ? response.data?.name || undefined : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Remove the bot itself from a group. */
+export async function leaveChatFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  chatId: string;
+}): Promise<void> {
+  const { cfg, accountId, chatId } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured || !account.appId) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
+  }
+
+  const client = createFeishuClient(account.config, account.accountId);
+  const response = await client.im.chatMembers.delete({
+    path: { chat_id: chatId },
+    params: { member_id_type: "app_id" },
+    data: { id_list: [account.appId] },
+  });
+
+  if (response.code !== 0) {
+    throw new Error(`Feishu leave chat failed: ${response.msg || `code ${response.code}`}`);
+  }
+}
+
+/**
+ * Bot joined a group: greet it, or, for a group outside `groupAllowFrom` under
+ * `groupPolicy: "allowlist"`, tell the configured admins and optionally leave.
+ */
+export async function handleFeishuBotAdded(params: {
+  cfg: ClawdbotConfig;
+  event: FeishuBotMembershipEvent;
+  accountId?: string;
+  runtime?: RuntimeEnv;
+}): Promise<void> {
+  const { cfg, event, runtime } = params;
+  const account = resolveFeishuAccount({ cfg, accountId: params.accountId });
+  const accountId = account.accountId;
+  const feishuCfg = account.config;
+  const lifecycle = feishuCfg.groupLifecycle ?? {};
+  const log = runtime?.log ?? console.log;
+  const error = runtime?.error ?? console.error;
+  const chatId = event.chat_id;
+  const operatorOpenId = event.operator_id?.open_id;
+
+  log(`feishu[${accountId}]: bot added to chat ${chatId} by ${operatorOpenId ?? "unknown"}`);
+
+  const groupPolicy = feishuCfg.groupPolicy ?? "open";
+  if (groupPolicy === "disabled") return;
+
+  const allowed =
+    groupPolicy !== "allowlist" ||
+    isFeishuGroupAllowed({
+      groupPolicy,
+      allowFrom: feishuCfg.groupAllowFrom ?? [],
+      senderId: chatId,
+    });
+
+  if (!allowed) {
+    const leave = lifecycle.leaveUnallowedGroups === true;
+    log(`feishu[${accountId}]: chat ${chatId} not in group allowlist${leave ? ", leaving" : ""}`);
+
+    const notifyTargets = lifecycle.adminNotify ?? [];
+    if (notifyTargets.length > 0) {
+      const chatName = event.name || (await resolveChatName({ cfg, accountId, chatId }));
+      const operator = operatorOpenId ? `<at user_id="${operatorOpenId}"></at>` : "未知用户";
+      const text = [
+        `机器人被 ${operator} 拉入了不在白名单中的群「${chatName ?? chatId}」（${chatId}）。`,
+        leave
+          ? "已自动退出该群。"
+          : "如需启用，请将该群 ID 加入 channels.feishu.groupAllowFrom。",
+      ].join("\n");
+      for (const to of notifyTargets) {
+        try {
+          await sendMessageFeishu({ cfg, accountId, to: String(to), text });
+        } catch (err) {
+          error(`feishu[${accountId}]: failed to notify admin ${to}: ${String(err)}`);
+        }
+      }
+    }
+
+    if (leave) {
+      try {
+        await leaveChatFeishu({ cfg, accountId, chatId });
+      } catch (err) {
+        error(`feishu[${accountId}]: failed to leave chat ${chatId}: ${String(err)}`);
+      }
+    }
+    return;
+  }
+
+  try {
+    if (lifecycle.welcomeCard) {
+      await sendCardFeishu({ cfg, accountId, to: chatId, card: lifecycle.welcomeCard });
+    } else if (lifecycle.welcomeMessage) {
+      if (feishuCfg.renderMode === "card") {
+        await sendMarkdownCardFeishu({ cfg, accountId, to: chatId, text: lifecycle.welcomeMessage });
+      } else if (feishuCfg.renderMode === "post") {
+        await sendMarkdownPostFeishu({ cfg, accountId, to: chatId, text: lifecycle.welcomeMessage });
+      } else {
+        await sendMessageFeishu({ cfg, accountId, to: chatId, text: lifecycle.welcomeMessage });
+      }
+    }
+  } catch (err) {
+    error(`feishu[${accountId}]: failed to send welcome message to ${chatId}: ${String(err)}`);
+  }
+}
+
+/** Bot left or was removed from a group: drop everything kept for that chat. */
+export function handleFeishuBotRemoved(params: {
+  event: FeishuBotMembershipEvent;
+  accountId: string;
+  runtime?: RuntimeEnv;
+  chatHistories?: Map<string, HistoryEntry[]>;
+}): void {
+  const { event, accountId, runtime, chatHistories } = params;
+  const log = runtime?.log ?? console.log;
+  const chatId = event.chat_id;
+
+  // Thread-scoped entries are keyed `<chatId>:<threadId>`
+  for (const key of chatHistories?.keys() ?? []) {
+    if (key === chatId || key.startsWith(`${chatId}:`)) chatHistories?.delete(key);
+  }
+  forgetHistoryImages(accountId, chatId);
+  forgetCardActionChat(accountId, chatId);
+
+  log(`feishu[${accountId}]: bot removed from chat ${chatId}, cleared chat state`);
+}
@@ -1,28 +1,40 @@
 import * as Lark from "@larksuiteoapi/node-sdk";
+import type { ClawdbotConfig } from "openclaw/plugin-sdk";
+import { DEFAULT_ACCOUNT_ID } from "openclaw/plugin-sdk";
 import type { FeishuConfig, FeishuDomain } from "./types.js";
-import { resolveFeishuCredentials } from "./accounts.js";
+import { resolveFeishuAccount, resolveFeishuCredentials } from "./accounts.js";
 
-let cachedClient: Lark.Client | null = null;
-let cachedConfig: { appId: string; appSecret: string; domain: FeishuDomain } | null = null;
+type CachedClient = {
+  client: Lark.Client;
+  appId: string;
+  appSecret: string;
+  domain: FeishuDomain;
+};
+
+// One client per account, so several Feishu/Lark apps can run side by side.
+const clientCache = new Map<string, CachedClient>();
 
 function resolveDomain(domain: FeishuDomain) {
   return domain === "lark" ? Lark.Domain.Lark : Lark.Domain.Feishu;
 }
 
-export function createFeishuClient(cfg: FeishuConfig): Lark.Client {
+export function createFeishuClient(
+  cfg: FeishuConfig,
+  accountId: string = DEFAULT_ACCOUNT_ID,
+): Lark.Client {
   const creds = resolveFeishuCredentials(cfg);
   if (!creds) {
     throw new Error("Feishu credentials not configured (appId, appSecret required)");
   }
 
+  const cached = clientCache.get(accountId);
   if (
-    cachedClient &&
-    cachedConfig &&
-    cachedConfig.appId === creds.appId &&
-    cachedConfig.appSecret === creds.appSecret &&
-    cachedConfig.domain === creds.domain
+    cached &&
+    cached.appId === creds.appId &&
+    cached.appSecret === creds.appSecret &&
+    cached.domain === creds.domain
   ) {
-    return cachedClient;
+    return cached.client;
   }
 
   const client = new Lark.Client({
@@ -32,12 +44,31 @@ export function createFeishuClient(cfg: FeishuConfig): Lark.Client {
     domain: resolveDomain(creds.domain),
   });
 
-  cachedClient = client;
-  cachedConfig = { appId: creds.appId, appSecret: creds.appSecret, domain: creds.domain };
+  clientCache.set(accountId, {
+    client,
+    appId: creds.appId,
+    appSecret: creds.appSecret,
+    domain: creds.domain,
+  });
 
   return client;
 }
 
+/**
+ * Resolve a client for a plugin tool invocation.
+ * Runs triggered from a Feishu conversation act as that conversation's account;
+ * everything else (other channels, cron) uses the default account.
+ */
+export function createFeishuToolClient(params: {
+  cfg: ClawdbotConfig;
+  messageChannel?: string;
+  agentAccountId?: string;
+}): Lark.Client {
+  const accountId = params.messageChannel === "feishu" ? params.agentAccountId : undefined;
+  const account = resolveFeishuAccount({ cfg: params.cfg, accountId });
+  return createFeishuClient(account.config, account.accountId);
+}
+
 export function createFeishuWSClient(cfg: FeishuConfig): Lark.WSClient {
   const creds = resolveFeishuCredentials(cfg);
   if (!creds) {
@@ -60,7 +91,10 @@ export function createEventDispatcher(cfg: FeishuConfig): Lark.EventDispatcher {
   });
 }
 
-export function clearClientCache() {
-  cachedClient = null;
-  cachedConfig = null;
+export function clearClientCache(accountId?: string) {
+  if (accountId) {
+    clientCache.delete(accountId);
+    return;
+  }
+  clientCache.clear();
 }
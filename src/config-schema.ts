@@ -30,10 +30,15 @@ const MarkdownConfigSchema = z
   .strict()
   .optional();
 
-// Message render mode: auto (default) = detect markdown, raw = plain text, card = always card
-const RenderModeSchema = z.enum(["auto", "raw", "card"]).optional();
-// Render engine: simple = existing text/card delivery, agent-card = streaming card renderer
-const RenderEngineSchema = z.enum(["simple", "agent-card"]).optional();
+// Message render mode: auto (default) = detect markdown, raw = plain text, card = always card,
+// post = rich text message (forwardable, quotable and searchable, unlike cards)
+const RenderModeSchema = z.enum(["auto", "raw", "card", "post"]).optional();
+// Render engine: simple = existing text/card delivery, agent-card = streaming card renderer,
+// agent-card-stream = agent-card pushed through CardKit card entities (falls back to agent-card)
+const RenderEngineSchema = z.enum(["simple", "agent-card", "agent-card-stream"]).optional();
+// Regexes (case-insensitive) for emoji-prefixed tool progress lines that should go to the
+// agent card timeline instead of the answer; tools seen in verbose events match automatically
+const ToolLinePatternsSchema = z.array(z.string()).optional();
 
 const BlockStreamingCoalesceSchema = z
   .object({
@@ -55,6 +60,65 @@ const ChannelHeartbeatVisibilitySchema = z
 const MenuEventsSchema = z.record(z.string(), z.string()).optional();
 const EventsSchema = z.record(z.string(), z.string()).optional();
 
+// Bot added to / removed from groups
+const GroupLifecycleSchema = z
+  .object({
+    welcomeMessage: z.string().optional(),
+    welcomeCard: z.record(z.string(), z.unknown()).optional(),
+    adminNotify: z.array(z.string()).optional(),
+    leaveUnallowedGroups: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
+// Speech-to-text for inbound voice messages
+const SttConfigSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    provider: z.enum(["command", "openai"]).optional(),
+    // command: `{input}` is replaced by the audio file, `{language}` by `language`
+    command: z.string().optional(),
+    ffmpegPath: z.string().optional(),
+    convertToWav: z.boolean().optional(),
+    // openai: any OpenAI-compatible /audio/transcriptions endpoint
+    baseUrl: z.string().optional(),
+    apiKey: z.string().optional(),
+    model: z.string().optional(),
+    language: z.string().optional(),
+    timeoutSec: z.number().int().positive().optional(),
+  })
+  .strict()
+  .optional();
+
+// Voice replies to voice messages in DMs
+const TtsConfigSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    provider: z.enum(["command", "openai"]).optional(),
+    // command: writes audio to `{output}`; text on stdin and in `{text}`
+    command: z.string().optional(),
+    outputExtension: z.string().optional(),
+    baseUrl: z.string().optional(),
+    apiKey: z.string().optional(),
+    model: z.string().optional(),
+    voice: z.string().optional(),
+    maxChars: z.number().int().positive().optional(),
+    timeoutSec: z.number().int().positive().optional(),
+  })
+  .strict()
+  .optional();
+
+// Inbound message dedup; `path` may point at a shared volume used by several gateways
+const DedupConfigSchema = z
+  .object({
+    store: z.enum(["file", "memory"]).optional(),
+    path: z.string().optional(),
+    ttlHours: z.number().positive().optional(),
+    maxEntries: z.number().int().positive().optional(),
+  })
+  .strict()
+  .optional();
+
 const FeishuToolsConfigSchema = z
   .object({
     doc: z.boolean().optional(),
@@ -62,6 +126,8 @@ const FeishuToolsConfigSchema = z
     drive: z.boolean().optional(),
     perm: z.boolean().optional(),
     scopes: z.boolean().optional(),
+    chatHistory: z.boolean().optional(),
+    chatHistoryAllowChats: z.array(z.string()).optional(),
   })
   .strict()
   .optional();
@@ -78,9 +144,47 @@ export const FeishuGroupSchema = z
   })
   .strict();
 
+/**
+ * Per-account overrides under `channels.feishu.accounts.<id>`.
+ * Unset fields inherit from the top-level channel config, so no defaults here.
+ */
+export const FeishuAccountConfigSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    name: z.string().optional(),
+    appId: z.string().optional(),
+    appSecret: z.string().optional(),
+    encryptKey: z.string().optional(),
+    verificationToken: z.string().optional(),
+    domain: FeishuDomainSchema.optional(),
+    connectionMode: FeishuConnectionModeSchema.optional(),
+    webhookPath: z.string().optional(),
+    webhookPort: z.number().int().positive().optional(),
+    dmPolicy: DmPolicySchema.optional(),
+    allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
+    groupPolicy: GroupPolicySchema.optional(),
+    groupAllowFrom: z.array(z.union([z.string(), z.number()])).optional(),
+    requireMention: z.boolean().optional(),
+    groups: z.record(z.string(), FeishuGroupSchema.optional()).optional(),
+    historyLimit: z.number().int().min(0).optional(),
+    autoFetchChatHistory: z.boolean().optional(),
+    threadSessions: z.boolean().optional(),
+    ffmpegPath: z.string().optional(),
+    dmHistoryLimit: z.number().int().min(0).optional(),
+    mediaMaxMb: z.number().positive().optional(),
+    renderMode: RenderModeSchema,
+    renderEngine: RenderEngineSchema,
+    toolLinePatterns: ToolLinePatternsSchema,
+    groupLifecycle: GroupLifecycleSchema,
+    menuEvents: MenuEventsSchema,
+    events: EventsSchema,
+  })
+  .strict();
+
 export const FeishuConfigSchema = z
   .object({
     enabled: z.boolean().optional(),
+    name: z.string().optional(),
     appId: z.string().optional(),
     appSecret: z.string().optional(),
     encryptKey: z.string().optional(),
@@ -99,6 +203,9 @@ export const FeishuConfigSchema = z
     requireMention: z.boolean().optional().default(true),
     groups: z.record(z.string(), FeishuGroupSchema.optional()).optional(),
     historyLimit: z.number().int().min(0).optional(),
+    autoFetchChatHistory: z.boolean().optional(),
+    threadSessions: z.boolean().optional(),
+    ffmpegPath: z.string().optional(),
     dmHistoryLimit: z.number().int().min(0).optional(),
     dms: z.record(z.string(), DmConfigSchema).optional(),
     textChunkLimit: z.number().int().positive().optional(),
@@ -111,18 +218,43 @@ export const FeishuConfigSchema = z
     events: EventsSchema,
     tools: FeishuToolsConfigSchema,
     renderEngine: RenderEngineSchema,
+    toolLinePatterns: ToolLinePatternsSchema,
+    groupLifecycle: GroupLifecycleSchema,
+    dedup: DedupConfigSchema,
+    stt: SttConfigSchema,
+    tts: TtsConfigSchema,
+    defaultAccount: z.string().optional(),
+    accounts: z.record(z.string(), FeishuAccountConfigSchema.optional()).optional(),
   })
   .strict()
   .superRefine((value, ctx) => {
-    if (value.dmPolicy === "open") {
-      const allowFrom = value.allowFrom ?? [];
-      const hasWildcard = allowFrom.some((entry) => String(entry).trim() === "*");
+    const requireWildcard = (
+      dmPolicy: string | undefined,
+      allowFrom: Array<string | number> | undefined,
+      path: Array<string | number>,
+      label: string,
+    ) => {
+      if (dmPolicy !== "open") return;
+      const hasWildcard = (allowFrom ?? []).some((entry) => String(entry).trim() === "*");
       if (!hasWildcard) {
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
-          path: ["allowFrom"],
-          message: 'channels.feishu.dmPolicy="open" requires channels.feishu.allowFrom to include "*"',
+          path: [...path, "allowFrom"],
+          message: `${label}.dmPolicy="open" requires ${label}.allowFrom to include "*"`,
         });
       }
+    };
+
+    requireWildcard(value.dmPolicy, value.allowFrom, [], "channels.feishu");
+    // Accounts inherit unset fields from the top level, as in mergeFeishuAccountConfig
+    for (const [accountId, account] of Object.entries(value.accounts ?? {})) {
+      // Accounts setting neither field are covered by the top-level check
+      if (!account || (account.dmPolicy === undefined && account.allowFrom === undefined)) continue;
+      requireWildcard(
+        account.dmPolicy ?? value.dmPolicy,
+        account.allowFrom ?? value.allowFrom,
+        ["accounts", accountId],
+        `channels.feishu.accounts.${accountId}`,
+      );
     }
   });
@@ -0,0 +1,223 @@
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { ClawdbotConfig } from "openclaw/plugin-sdk";
+import { getFeishuRuntime } from "./runtime.js";
+import type { FeishuConfig } from "./types.js";
+
+/**
+ * Remembers inbound message ids that were already handled, so events Feishu redelivers
+ * (slow ack, gateway restart) are not answered twice. A store shared by several gateway
+ * replicas must make `claim` atomic across them.
+ */
+export interface FeishuDedupStore {
+  /** Record `key`; resolves false if it was recorded before and has not expired */
+  claim(key: string): Promise<boolean>;
+}
+
+export type FeishuDedupOptions = {
+  ttlMs: number;
+  maxEntries: number;
+  log?: (msg: string) => void;
+};
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+// Drop expired keys, then the oldest ones beyond the size bound.
+// Maps iterate in insertion order, and keys are inserted in claim order.
+function prune(entries: Map<string, number>, now: number, options: FeishuDedupOptions) {
+  for (const [key, timestamp] of entries) {
+    if (now - timestamp > options.ttlMs) entries.delete(key);
+  }
+  trimToSize(entries, options.maxEntries);
+}
+
+function trimToSize(entries: Map<string, number>, maxEntries: number) {
+  for (const key of entries.keys()) {
+    if (entries.size <= maxEntries) break;
+    entries.delete(key);
+  }
+}
+
+function claimIn(entries: Map<string, number>, key: string, options: FeishuDedupOptions) {
+  const now = Date.now();
+  prune(entries, now, options);
+  if (entries.has(key)) return false;
+  entries.set(key, now);
+  trimToSize(entries, options.maxEntries);
+  return true;
+}
+
+/** Process-local store; forgets everything on restart. */
+export function createMemoryDedupStore(options: FeishuDedupOptions): FeishuDedupStore {
+  const entries = new Map<string, number>();
+  return {
+    async claim(key) {
+      return claimIn(entries, key, options);
+    },
+  };
+}
+
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 2000;
+// A lock older than this was left behind by a crashed process
+const LOCK_STALE_MS = 10_000;
+
+const readLockToken = (lockPath: string) => fs.readFile(lockPath, "utf8").catch(() => null);
+
+/**
+ * Take the lock file, writing `token` into it so only its owner releases it.
+ * A stale lock is renamed aside rather than deleted: rename is atomic, so of two
+ * waiters that both saw it stale only one moves it, and the other can't remove
+ * the lock the first has just taken.
+ */
+async function acquireLock(lockPath: string, token: string): Promise<boolean> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    try {
+      await fs.writeFile(lockPath, token, { flag: "wx" });
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      const stat = await fs.stat(lockPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        const asidePath = `${lockPath}.${token}.stale`;
+        const moved = await fs.rename(lockPath, asidePath).then(
+          () => true,
+          () => false,
+        );
+        if (moved) {
+          // Someone replaced the stale lock in between: put theirs back
+          const asideStat = await fs.stat(asidePath).catch(() => null);
+          if (asideStat && Date.now() - asideStat.mtimeMs <= LOCK_STALE_MS) {
+            await fs.link(asidePath, lockPath).catch(() => undefined);
+          }
+          await fs.rm(asidePath, { force: true });
+        }
+        continue;
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+  return false;
+}
+
+async function releaseLock(lockPath: string, token: string): Promise<void> {
+  if ((await readLockToken(lockPath)) === token) await fs.rm(lockPath, { force: true });
+}
+
+/**
+ * JSON-file store. Every claim takes a lock file next to the store and re-reads the
+ * file under it, so replicas can share one path (e.g. on a shared volume, where mtime
+ * is too coarse to tell whether another replica wrote). On I/O errors it degrades to
+ * its in-memory copy; a corrupt file is replaced on the next save.
+ */
+export function createFileDedupStore(
+  params: FeishuDedupOptions & { filePath: string },
+): FeishuDedupStore {
+  const { filePath, ...options } = params;
+  const lockPath = `${filePath}.lock`;
+  const log = options.log ?? console.log;
+  let entries = new Map<string, number>();
+  let corruptLogged = false;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async () => {
+    let text: string;
+    try {
+      text = await fs.readFile(filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw err;
+    }
+    let raw: { entries?: Record<string, number> };
+    try {
+      raw = JSON.parse(text);
+    } catch (err) {
+      if (!corruptLogged) {
+        log(`feishu: dedup store ${filePath} is corrupt, starting over: ${String(err)}`);
+        corruptLogged = true;
+      }
+      entries = new Map();
+      return;
+    }
+    corruptLogged = false;
+    const sorted = Object.entries(raw.entries ?? {})
+      .filter(([, timestamp]) => typeof timestamp === "number")
+      .sort((a, b) => a[1] - b[1]);
+    entries = new Map(sorted);
+  };
+
+  const save = async () => {
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify({ version: 1, entries: Object.fromEntries(entries) }));
+    await fs.rename(tmpPath, filePath);
+  };
+
+  const claimLocked = async (key: string) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const token = `${process.pid}-${randomUUID()}`;
+    const locked = await acquireLock(lockPath, token);
+    if (!locked) {
+      log(`feishu: dedup store lock busy, using in-memory state for ${key}`);
+      return claimIn(entries, key, options);
+    }
+    try {
+      await load();
+      const claimed = claimIn(entries, key, options);
+      if (claimed) await save();
+      return claimed;
+    } finally {
+      await releaseLock(lockPath, token);
+    }
+  };
+
+  return {
+    claim(key) {
+      // Serialize claims within this process; the lock file covers other processes
+      const result = queue.then(() =>
+        claimLocked(key).catch((err) => {
+          log(`feishu: dedup store ${filePath} failed, using in-memory state: ${String(err)}`);
+          return claimIn(entries, key, options);
+        }),
+      );
+      queue = result;
+      return result;
+    },
+  };
+}
+
+let customStore: FeishuDedupStore | null = null;
+let configuredStore: { signature: string; store: FeishuDedupStore } | null = null;
+
+/**
+ * Replace the configured store, e.g. with one backed by Redis shared by all replicas.
+ * Pass null to go back to `channels.feishu.dedup`.
+ */
+export function setFeishuDedupStore(store: FeishuDedupStore | null): void {
+  customStore = store;
+}
+
+function resolveDefaultDedupPath() {
+  return path.join(getFeishuRuntime().state.resolveStateDir(), "feishu", "dedup.json");
+}
+
+export function getFeishuDedupStore(cfg: ClawdbotConfig): FeishuDedupStore {
+  if (customStore) return customStore;
+
+  const dedupCfg = (cfg.channels?.feishu as FeishuConfig | undefined)?.dedup ?? {};
+  const signature = JSON.stringify(dedupCfg);
+  if (configuredStore?.signature === signature) return configuredStore.store;
+
+  const options: FeishuDedupOptions = {
+    ttlMs: dedupCfg.ttlHours !== undefined ? dedupCfg.ttlHours * 60 * 60 * 1000 : DEFAULT_TTL_MS,
+    maxEntries: dedupCfg.maxEntries ?? DEFAULT_MAX_ENTRIES,
+  };
+  const store =
+    dedupCfg.store === "memory"
+      ? createMemoryDedupStore(options)
+      : createFileDedupStore({ ...options, filePath: dedupCfg.path || resolveDefaultDedupPath() });
+  configuredStore = { signature, store };
+  return store;
+}
@@ -1,6 +1,6 @@
 import type { ClawdbotConfig } from "openclaw/plugin-sdk";
-import type { FeishuConfig } from "./types.js";
 import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccount } from "./accounts.js";
 import { normalizeFeishuTarget } from "./targets.js";
 
 export type FeishuDirectoryPeer = {
@@ -17,19 +17,20 @@ export type FeishuDirectoryGroup = {
 
 export async function listFeishuDirectoryPeers(params: {
   cfg: ClawdbotConfig;
+  accountId?: string | null;
   query?: string;
   limit?: number;
 }): Promise<FeishuDirectoryPeer[]> {
-  const feishuCfg = params.cfg.channels?.feishu as FeishuConfig | undefined;
+  const feishuCfg = resolveFeishuAccount({ cfg: params.cfg, accountId: params.accountId }).config;
   const q = params.query?.trim().toLowerCase() || "";
   const ids = new Set<string>();
 
-  for (const entry of feishuCfg?.allowFrom ?? []) {
+  for (const entry of feishuCfg.allowFrom ?? []) {
     const trimmed = String(entry).trim();
     if (trimmed && trimmed !== "*") ids.add(trimmed);
   }
 
-  for (const userId of Object.keys(feishuCfg?.dms ?? {})) {
+  for (const userId of Object.keys(feishuCfg.dms ?? {})) {
     const trimmed = userId.trim();
     if (trimmed) ids.add(trimmed);
   }
@@ -45,19 +46,20 @@ export async function listFeishuDirectoryPeers(params: {
 
 export async function listFeishuDirectoryGroups(params: {
   cfg: ClawdbotConfig;
+  accountId?: string | null;
   query?: string;
   limit?: number;
 }): Promise<FeishuDirectoryGroup[]> {
-  const feishuCfg = params.cfg.channels?.feishu as FeishuConfig | undefined;
+  const feishuCfg = resolveFeishuAccount({ cfg: params.cfg, accountId: params.accountId }).config;
   const q = params.query?.trim().toLowerCase() || "";
   const ids = new Set<string>();
 
-  for (const groupId of Object.keys(feishuCfg?.groups ?? {})) {
+  for (const groupId of Object.keys(feishuCfg.groups ?? {})) {
     const trimmed = groupId.trim();
     if (trimmed && trimmed !== "*") ids.add(trimmed);
   }
 
-  for (const entry of feishuCfg?.groupAllowFrom ?? []) {
+  for (const entry of feishuCfg.groupAllowFrom ?? []) {
     const trimmed = String(entry).trim();
     if (trimmed && trimmed !== "*") ids.add(trimmed);
   }
@@ -72,16 +74,17 @@ export async function listFeishuDirectoryGroups(params: {
 
 export async function listFeishuDirectoryPeersLive(params: {
   cfg: ClawdbotConfig;
+  accountId?: string | null;
   query?: string;
   limit?: number;
 }): Promise<FeishuDirectoryPeer[]> {
-  const feishuCfg = params.cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg?.appId || !feishuCfg?.appSecret) {
+  const account = resolveFeishuAccount({ cfg: params.cfg, accountId: params.accountId });
+  if (!account.configured) {
     return listFeishuDirectoryPeers(params);
   }
 
   try {
-    const client = createFeishuClient(feishuCfg);
+    const client = createFeishuClient(account.config, account.accountId);
     const peers: FeishuDirectoryPeer[] = [];
     const limit = params.limit ?? 50;
 
@@ -116,16 +119,17 @@ export async function listFeishuDirectoryPeersLive(params: {
 
 export async function listFeishuDirectoryGroupsLive(params: {
   cfg: ClawdbotConfig;
+  accountId?: string | null;
   query?: string;
   limit?: number;
 }): Promise<FeishuDirectoryGroup[]> {
-  const feishuCfg = params.cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg?.appId || !feishuCfg?.appSecret) {
+  const account = resolveFeishuAccount({ cfg: params.cfg, accountId: params.accountId });
+  if (!account.configured) {
     return listFeishuDirectoryGroups(params);
   }
 
   try {
-    const client = createFeishuClient(feishuCfg);
+    const client = createFeishuClient(account.config, account.accountId);
     const groups: FeishuDirectoryGroup[] = [];
     const limit = params.limit ?? 50;
 
@@ -4,6 +4,12 @@ export const FeishuDocSchema = Type.Union([
   Type.Object({
     action: Type.Literal("read"),
     doc_token: Type.String({ description: "Document token (extract from URL /docx/XXX)" }),
+    format: Type.Optional(
+      Type.Union([Type.Literal("text"), Type.Literal("markdown")], {
+        description:
+          "text (default): plain text and block statistics. markdown: full content incl. tables, code and images, suitable for editing and writing back",
+      }),
+    ),
   }),
   Type.Object({
     action: Type.Literal("write"),
@@ -17,6 +23,32 @@ export const FeishuDocSchema = Type.Union([
     doc_token: Type.String({ description: "Document token" }),
     content: Type.String({ description: "Markdown content to append to end of document" }),
   }),
+  Type.Object({
+    action: Type.Literal("insert"),
+    doc_token: Type.String({ description: "Document token" }),
+    content: Type.String({ description: "Markdown content to insert" }),
+    after_block_id: Type.Optional(
+      Type.String({ description: "Insert right after this block (from list_blocks)" }),
+    ),
+    after_heading: Type.Optional(
+      Type.String({ description: "Insert right after the top-level heading with this text" }),
+    ),
+  }),
+  Type.Object({
+    action: Type.Literal("replace_section"),
+    doc_token: Type.String({ description: "Document token" }),
+    heading: Type.String({ description: "Text of the top-level heading whose section to replace" }),
+    content: Type.String({
+      description:
+        "Markdown replacing everything under the heading up to the next heading of the same or higher level (the heading stays)",
+    }),
+  }),
+  Type.Object({
+    action: Type.Literal("find_replace"),
+    doc_token: Type.String({ description: "Document token" }),
+    find: Type.String({ description: "Exact text to find (case-sensitive)" }),
+    replace: Type.String({ description: "Replacement text; keeps the formatting of the matched text" }),
+  }),
   Type.Object({
     action: Type.Literal("create"),
     title: Type.String({ description: "Document title" }),
@@ -35,7 +67,9 @@ export const FeishuDocSchema = Type.Union([
     action: Type.Literal("update_block"),
     doc_token: Type.String({ description: "Document token" }),
     block_id: Type.String({ description: "Block ID (from list_blocks)" }),
-    content: Type.String({ description: "New text content" }),
+    content: Type.String({
+      description: "New content as one Markdown paragraph; inline styles (bold, italic, code, links) are kept",
+    }),
   }),
   Type.Object({
     action: Type.Literal("delete_block"),
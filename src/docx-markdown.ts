@@ -0,0 +1,224 @@
+// Renders the blocks of a docx document (documentBlock.list) back to Markdown, close
+// enough to what convert produces that a document can be read, edited and written back.
+
+/** Reference for images, turned back into the original image when written */
+export const DOCX_IMAGE_URL_PREFIX = "feishu-image:";
+
+// Values of `code.style.language`
+const CODE_LANGUAGES: Record<number, string> = {
+  1: "", 2: "abap", 3: "ada", 4: "apache", 5: "apex", 6: "assembly", 7: "bash", 8: "csharp",
+  9: "cpp", 10: "c", 11: "cobol", 12: "css", 13: "coffeescript", 14: "d", 15: "dart", 16: "delphi",
+  17: "django", 18: "dockerfile", 19: "erlang", 20: "fortran", 21: "foxpro", 22: "go", 23: "groovy",
+  24: "html", 25: "htmlbars", 26: "http", 27: "haskell", 28: "json", 29: "java", 30: "javascript",
+  31: "julia", 32: "kotlin", 33: "latex", 34: "lisp", 35: "logo", 36: "lua", 37: "matlab",
+  38: "makefile", 39: "markdown", 40: "nginx", 41: "objectivec", 42: "openedgeabl", 43: "php",
+  44: "perl", 45: "postscript", 46: "powershell", 47: "prolog", 48: "protobuf", 49: "python",
+  50: "r", 51: "rpg", 52: "ruby", 53: "rust", 54: "sas", 55: "scss", 56: "sql", 57: "scala",
+  58: "scheme", 59: "scratch", 60: "shell", 61: "swift", 62: "thrift", 63: "typescript",
+  64: "vbscript", 65: "vb", 66: "xml", 67: "yaml", 68: "cmake", 69: "diff", 70: "gherkin",
+  71: "graphql", 72: "glsl", 73: "properties", 74: "solidity", 75: "toml",
+};
+
+// Block types whose content is an `elements` text run list, by the key holding it
+const TEXT_KEYS: Record<number, string> = {
+  2: "text",
+  3: "heading1",
+  4: "heading2",
+  5: "heading3",
+  6: "heading4",
+  7: "heading5",
+  8: "heading6",
+  9: "heading7",
+  10: "heading8",
+  11: "heading9",
+  12: "bullet",
+  13: "ordered",
+  14: "code",
+  15: "quote",
+  17: "todo",
+};
+
+// Embedded objects Markdown can't express; kept as a visible note
+const EMBED_NAMES: Record<number, string> = {
+  18: "Bitable",
+  20: "ChatCard",
+  21: "Diagram",
+  26: "Iframe",
+  28: "ISV",
+  29: "Mindnote",
+  30: "Sheet",
+};
+
+type Block = Record<string, any>;
+type BlockMap = Map<string, Block>;
+
+function renderElements(elements: any[] | undefined, plain = false): string {
+  return (elements ?? [])
+    .map((el) => {
+      if (el.text_run) {
+        const content: string = el.text_run.content ?? "";
+        if (plain || !content.trim()) return content;
+        const style = el.text_run.text_element_style ?? {};
+        let out = style.inline_code ? `\`${content}\`` : content;
+        if (style.bold) out = `**${out}**`;
+        if (style.italic) out = `*${out}*`;
+        if (style.strikethrough) out = `~~${out}~~`;
+        if (style.link?.url) {
+          let url = style.link.url as string;
+          try {
+            url = decodeURIComponent(url);
+          } catch {
+            // Keep as stored
+          }
+          out = `[${out}](${url})`;
+        }
+        return out;
+      }
+      if (el.mention_user) return `@${el.mention_user.user_id}`;
+      if (el.mention_doc) {
+        const title = el.mention_doc.title || el.mention_doc.token;
+        return plain || !el.mention_doc.url ? title : `[${title}](${el.mention_doc.url})`;
+      }
+      if (el.equation) return plain ? el.equation.content : `$${(el.equation.content ?? "").trim()}$`;
+      return "";
+    })
+    .join("");
+}
+
+/** The `elements` run list of a text-bearing block (paragraph, heading, list item, code, quote, todo) */
+export function textElementsOf(block: Block): any[] | undefined {
+  const textKey = TEXT_KEYS[block.block_type];
+  return textKey ? (block[textKey]?.elements ?? []) : undefined;
+}
+
+/** Text of a block without formatting, e.g. to match a heading */
+export function blockPlainText(block: Block): string {
+  return renderElements(textElementsOf(block), true);
+}
+
+/** 1-9 for heading blocks, undefined otherwise */
+export function headingLevel(block: Block): number | undefined {
+  const type = block.block_type;
+  return type >= 3 && type <= 11 ? type - 2 : undefined;
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? `${prefix}${line}` : prefix.trimEnd()))
+    .join("\n");
+}
+
+function childrenOf(blockMap: BlockMap, block: Block): Block[] {
+  return (block.children ?? []).map((id: string) => blockMap.get(id)).filter(Boolean);
+}
+
+/** Render a list of sibling blocks, separating paragraphs with blank lines. */
+function renderSiblings(blockMap: BlockMap, blocks: Block[], indent = ""): string {
+  const parts: string[] = [];
+  let ordinal = 0;
+  let previousType: number | undefined;
+  for (const block of blocks) {
+    const type = block.block_type;
+    ordinal = type === 13 ? (previousType === 13 ? ordinal + 1 : 1) : 0;
+    const sequence = Number(block.ordered?.style?.sequence);
+    if (type === 13 && Number.isInteger(sequence) && sequence > 0) ordinal = sequence;
+
+    const rendered = renderBlock(blockMap, block, indent, ordinal);
+    if (rendered === undefined) continue;
+    // Consecutive items of the same list stay together
+    const joinTight = (type === 12 || type === 13 || type === 17) && type === previousType;
+    parts.push(parts.length === 0 ? rendered : `${joinTight ? "\n" : "\n\n"}${rendered}`);
+    previousType = type;
+  }
+  return parts.join("");
+}
+
+function renderListItem(blockMap: BlockMap, block: Block, indent: string, marker: string, text: string): string {
+  const nested = childrenOf(blockMap, block);
+  const head = `${indent}${marker} ${text}`;
+  if (nested.length === 0) return head;
+  return `${head}\n${renderSiblings(blockMap, nested, `${indent}${" ".repeat(marker.length + 1)}`)}`;
+}
+
+function renderBlock(blockMap: BlockMap, block: Block, indent: string, ordinal: number): string | undefined {
+  const type: number = block.block_type;
+  const textKey = TEXT_KEYS[type];
+  const text = textKey ? renderElements(block[textKey]?.elements) : "";
+
+  switch (type) {
+    case 1: // Page
+    case 24: // Grid
+    case 25: // GridColumn
+      return renderSiblings(blockMap, childrenOf(blockMap, block), indent);
+    case 2:
+      return `${indent}${text}`;
+    case 3:
+    case 4:
+    case 5:
+    case 6:
+    case 7:
+    case 8:
+    case 9:
+    case 10:
+    case 11:
+      return `${indent}${"#".repeat(Math.min(type - 2, 6))} ${text}`;
+    case 12:
+      return renderListItem(blockMap, block, indent, "-", text);
+    case 13:
+      return renderListItem(blockMap, block, indent, `${ordinal}.`, text);
+    case 17:
+      return renderListItem(blockMap, block, indent, block.todo?.style?.done ? "- [x]" : "- [ ]", text);
+    case 14: {
+      const language = CODE_LANGUAGES[block.code?.style?.language] ?? "";
+      const code = renderElements(block.code?.elements, true);
+      return prefixLines(`\`\`\`${language}\n${code}\n\`\`\``, indent);
+    }
+    case 15:
+      return prefixLines(text, `${indent}> `);
+    case 19: // Callout
+    case 34: // QuoteContainer
+      return prefixLines(renderSiblings(blockMap, childrenOf(blockMap, block)), `${indent}> `);
+    case 22:
+      return `${indent}---`;
+    case 23:
+      return `${indent}[${block.file?.name ?? "file"}]`;
+    case 27:
+      return block.image?.token ? `${indent}![](${DOCX_IMAGE_URL_PREFIX}${block.image.token})` : undefined;
+    case 31:
+      return prefixLines(renderTable(blockMap, block), indent);
+    default: {
+      const name = EMBED_NAMES[type];
+      if (name) return `${indent}[${name}: ${block[name.toLowerCase()]?.token ?? block.block_id}]`;
+      // Unknown containers: keep whatever text they hold
+      const nested = childrenOf(blockMap, block);
+      return nested.length > 0 ? renderSiblings(blockMap, nested, indent) : undefined;
+    }
+  }
+}
+
+function renderTable(blockMap: BlockMap, table: Block): string {
+  const property = table.table?.property ?? {};
+  const columns: number = property.column_size ?? 0;
+  const cellIds: string[] = table.table?.cells ?? table.children ?? [];
+  if (columns === 0 || cellIds.length === 0) return "";
+
+  const cells = cellIds.map((id) => {
+    const cell = blockMap.get(id);
+    const content = cell ? renderSiblings(blockMap, childrenOf(blockMap, cell)) : "";
+    return content.replace(/\|/g, "\\|").replace(/\n+/g, "<br>").trim();
+  });
+  const rows: string[][] = [];
+  for (let i = 0; i < cells.length; i += columns) rows.push(cells.slice(i, i + columns));
+
+  const line = (row: string[]) => `| ${row.join(" | ")} |`;
+  return [line(rows[0]), line(rows[0].map(() => "---")), ...rows.slice(1).map(line)].join("\n");
+}
+
+/** Markdown for the document whose page block is `rootBlockId` (the document id). */
+export function renderDocxBlocksToMarkdown(blocks: Block[], rootBlockId: string): string {
+  const blockMap: BlockMap = new Map(blocks.map((b) => [b.block_id, b]));
+  const root = blocks.find((b) => b.block_id === rootBlockId) ?? blocks.find((b) => b.block_type === 1);
+  if (!root) return "";
+  return `${renderSiblings(blockMap, [root]).trim()}\n`;
+}
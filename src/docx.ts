@@ -1,11 +1,20 @@
 import { Type } from "@sinclair/typebox";
-import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
-import { createFeishuClient } from "./client.js";
+import type { OpenClawPluginApi, OpenClawPluginToolContext } from "openclaw/plugin-sdk";
+import { createFeishuToolClient } from "./client.js";
+import { listEnabledFeishuAccounts } from "./accounts.js";
 import type { FeishuConfig } from "./types.js";
 import type * as Lark from "@larksuiteoapi/node-sdk";
 import { Readable } from "stream";
 import { FeishuDocSchema, type FeishuDocParams } from "./doc-schema.js";
 import { resolveToolsConfig } from "./tools-config.js";
+import {
+  DOCX_IMAGE_URL_PREFIX,
+  blockPlainText,
+  headingLevel,
+  renderDocxBlocksToMarkdown,
+  textElementsOf,
+} from "./docx-markdown.js";
+import { readFeishuDownload } from "./media.js";
 
 // ============ Helpers ============
 
@@ -16,14 +25,14 @@ function json(data: unknown) {
   };
 }
 
-/** Extract image URLs from markdown content */
+/** Extract image URLs from markdown content, including images of a `read` Markdown export */
 function extractImageUrls(markdown: string): string[] {
   const regex = /!\[[^\]]*\]\(([^)]+)\)/g;
   const urls: string[] = [];
   let match;
   while ((match = regex.exec(markdown)) !== null) {
     const url = match[1].trim();
-    if (url.startsWith("http://") || url.startsWith("https://")) {
+    if (url.startsWith("http://") || url.startsWith("https://") || url.startsWith(DOCX_IMAGE_URL_PREFIX)) {
       urls.push(url);
     }
   }
@@ -51,28 +60,22 @@ const BLOCK_TYPE_NAMES: Record<number, string> = {
   32: "TableCell",
 };
 
-// Block types that cannot be created via documentBlockChildren.create API
-const UNSUPPORTED_CREATE_TYPES = new Set([31, 32]);
+const TABLE_BLOCK_TYPE = 31;
+
+// Cells only exist inside a table and are created along with it
+const UNSUPPORTED_CREATE_TYPES = new Set([32]);
 
 /** Clean blocks for insertion (remove unsupported types and read-only fields) */
 function cleanBlocksForInsert(blocks: any[]): { cleaned: any[]; skipped: string[] } {
   const skipped: string[] = [];
-  const cleaned = blocks
-    .filter((block) => {
-      if (UNSUPPORTED_CREATE_TYPES.has(block.block_type)) {
-        const typeName = BLOCK_TYPE_NAMES[block.block_type] || `type_${block.block_type}`;
-        skipped.push(typeName);
-        return false;
-      }
-      return true;
-    })
-    .map((block) => {
-      if (block.block_type === 31 && block.table?.merge_info) {
-        const { merge_info, ...tableRest } = block.table;
-        return { ...block, table: tableRest };
-      }
-      return block;
-    });
+  const cleaned = blocks.filter((block) => {
+    if (UNSUPPORTED_CREATE_TYPES.has(block.block_type)) {
+      const typeName = BLOCK_TYPE_NAMES[block.block_type] || `type_${block.block_type}`;
+      skipped.push(typeName);
+      return false;
+    }
+    return true;
+  });
   return { cleaned, skipped };
 }
 
@@ -115,50 +118,269 @@ async function convertMarkdown(client: Lark.Client, markdown: string) {
   return {
     blocks: orderedBlocks,
     firstLevelBlockIds: firstLevelIds,
+    // Every converted block by id, for resolving table cells' content
+    blockMap,
   };
 }
 
+// Children create and delete calls take at most 50 blocks each
+const MAX_CHILDREN_PER_REQUEST = 50;
+
+/** Called with the number of blocks each create call added */
+type InsertProgress = (created: number) => void;
+
+/** Converted child blocks of `block`, in order */
+function childBlocksOf(block: any, blockMap: Map<string | undefined, any>): any[] {
+  return (block.children ?? []).map((id: string) => blockMap.get(id)).filter(Boolean);
+}
+
+/** The create API takes block content only; ids and children refer to the conversion */
+function toCreatePayload(block: any) {
+  const { block_id, parent_id, children, ...content } = block;
+  return content;
+}
+
+/** Remove `count` children of a block from `startIndex` on, e.g. the empty text a new container starts with */
+async function deleteChildren(
+  client: Lark.Client,
+  docToken: string,
+  blockId: string,
+  startIndex: number,
+  count: number,
+) {
+  for (let remaining = count; remaining > 0; remaining -= MAX_CHILDREN_PER_REQUEST) {
+    const res = await client.docx.documentBlockChildren.batchDelete({
+      path: { document_id: docToken, block_id: blockId },
+      data: { start_index: startIndex, end_index: startIndex + Math.min(remaining, MAX_CHILDREN_PER_REQUEST) },
+    });
+    if (res.code !== 0) throw new Error(res.msg);
+  }
+}
+
+type InsertOptions = {
+  /** Default: the document */
+  parentBlockId?: string;
+  /** Position among the parent's children; default: after the last one */
+  index?: number;
+  onProgress?: InsertProgress;
+};
+
+/**
+ * Insert converted blocks under `parentBlockId`, then each block's own children under
+ * its new id, recursively, so nested lists, quotes and callouts keep their content.
+ * `descendants` lists every created block in document order.
+ */
 async function insertBlocks(
   client: Lark.Client,
   docToken: string,
   blocks: any[],
-  parentBlockId?: string,
-): Promise<{ children: any[]; skipped: string[] }> {
+  blockMap: Map<string | undefined, any>,
+  { parentBlockId, index, onProgress }: InsertOptions = {},
+): Promise<{ children: any[]; descendants: any[]; skipped: string[] }> {
   const { cleaned, skipped } = cleanBlocksForInsert(blocks);
   const blockId = parentBlockId ?? docToken;
+  const children: any[] = [];
+  const descendants: any[] = [];
+  let nextIndex = index;
+
+  // Tables take several calls, so insert the blocks around them in runs, in order
+  let run: any[] = [];
+  const flushRun = async () => {
+    for (let start = 0; start < run.length; start += MAX_CHILDREN_PER_REQUEST) {
+      const batch = run.slice(start, start + MAX_CHILDREN_PER_REQUEST);
+      const res = await client.docx.documentBlockChildren.create({
+        path: { document_id: docToken, block_id: blockId },
+        data: { children: batch.map(toCreatePayload), index: nextIndex },
+      });
+      if (res.code !== 0) throw new Error(res.msg);
+      const created = res.data?.children ?? [];
+      onProgress?.(created.length);
+      if (nextIndex !== undefined) nextIndex += created.length;
+
+      for (let i = 0; i < created.length; i++) {
+        children.push(created[i]);
+        descendants.push(created[i]);
+        const nested = batch[i] ? childBlocksOf(batch[i], blockMap) : [];
+        if (nested.length === 0 || !created[i].block_id) continue;
+
+        const inner = await insertBlocks(client, docToken, nested, blockMap, {
+          parentBlockId: created[i].block_id,
+          onProgress,
+        });
+        descendants.push(...inner.descendants);
+        skipped.push(...inner.skipped);
+        // Containers such as callouts are created with an empty text block of their own
+        if (inner.children.length > 0) {
+          await deleteChildren(client, docToken, created[i].block_id, 0, created[i].children?.length ?? 0);
+        }
+      }
+    }
+    run = [];
+  };
+
+  for (const block of cleaned) {
+    if (block.block_type !== TABLE_BLOCK_TYPE) {
+      run.push(block);
+      continue;
+    }
+    await flushRun();
+    const table = await insertTable(client, docToken, block, blockMap, blockId, nextIndex, onProgress);
+    if (nextIndex !== undefined) nextIndex++;
+    children.push(table.block);
+    descendants.push(table.block, ...table.descendants);
+    skipped.push(...table.skipped);
+  }
+  await flushRun();
 
-  if (cleaned.length === 0) {
-    return { children: [], skipped };
+  return { children, descendants, skipped };
+}
+
+/** Number of child blocks of each cell, i.e. the empty text block every new cell starts with */
+async function countCellChildren(client: Lark.Client, docToken: string, tableId: string) {
+  const counts = new Map<string, number>();
+  let pageToken: string | undefined;
+  do {
+    const res = await client.docx.documentBlockChildren.get({
+      path: { document_id: docToken, block_id: tableId },
+      params: { with_descendants: true, page_size: 500, page_token: pageToken },
+    });
+    if (res.code !== 0) throw new Error(res.msg);
+    for (const item of res.data?.items ?? []) {
+      if (item.parent_id && item.parent_id !== tableId) {
+        counts.set(item.parent_id, (counts.get(item.parent_id) ?? 0) + 1);
+      }
+    }
+    pageToken = res.data?.has_more ? res.data.page_token : undefined;
+  } while (pageToken);
+  return counts;
+}
+
+/**
+ * Tables can't be created with their content: create the table with its size, fill
+ * each cell with the converted cell's blocks, then apply merged cells.
+ */
+async function insertTable(
+  client: Lark.Client,
+  docToken: string,
+  table: any,
+  blockMap: Map<string | undefined, any>,
+  parentBlockId: string,
+  index: number | undefined,
+  onProgress?: InsertProgress,
+): Promise<{ block: any; descendants: any[]; skipped: string[] }> {
+  const { row_size, column_size, column_width, header_row, header_column, merge_info } =
+    table.table?.property ?? {};
+  if (!row_size || !column_size) {
+    return { block: table, descendants: [], skipped: ["Table"] };
   }
 
   const res = await client.docx.documentBlockChildren.create({
-    path: { document_id: docToken, block_id: blockId },
-    data: { children: cleaned },
+    path: { document_id: docToken, block_id: parentBlockId },
+    data: {
+      children: [
+        {
+          block_type: TABLE_BLOCK_TYPE,
+          table: {
+            property: {
+              row_size,
+              column_size,
+              ...(column_width && { column_width }),
+              ...(header_row !== undefined && { header_row }),
+              ...(header_column !== undefined && { header_column }),
+            },
+          },
+        },
+      ],
+      index,
+    },
   });
   if (res.code !== 0) throw new Error(res.msg);
-  return { children: res.data?.children ?? [], skipped };
-}
+  const created = res.data?.children?.[0];
+  const tableId = created?.block_id;
+  if (!tableId) throw new Error("Table creation failed: no block_id returned");
+
+  const cellIds: string[] = created.table?.cells ?? created.children ?? [];
+  onProgress?.(1 + cellIds.length);
+  const sourceCellIds: string[] = table.table?.cells ?? table.children ?? [];
+  const placeholderCounts = await countCellChildren(client, docToken, tableId);
+  const descendants: any[] = [];
+  const skipped: string[] = [];
 
-async function clearDocumentContent(client: Lark.Client, docToken: string) {
-  const existing = await client.docx.documentBlock.list({
-    path: { document_id: docToken },
-  });
-  if (existing.code !== 0) throw new Error(existing.msg);
+  for (let i = 0; i < cellIds.length; i++) {
+    const sourceCell = blockMap.get(sourceCellIds[i]);
+    const content = sourceCell ? childBlocksOf(sourceCell, blockMap) : [];
+    if (content.length === 0) continue;
+
+    const filled = await insertBlocks(client, docToken, content, blockMap, { parentBlockId: cellIds[i], onProgress });
+    descendants.push(...filled.descendants);
+    skipped.push(...filled.skipped);
+    // A cell can't be empty, so the placeholder goes only once there is content
+    if (filled.children.length > 0) {
+      await deleteChildren(client, docToken, cellIds[i], 0, placeholderCounts.get(cellIds[i]) ?? 0);
+    }
+  }
+
+  // merge_info has one entry per cell, row by row; spans start at the top-left cell
+  const mergeInfo: Array<{ row_span?: number; col_span?: number }> = merge_info ?? [];
+  for (let i = 0; i < mergeInfo.length; i++) {
+    const rowSpan = mergeInfo[i]?.row_span ?? 1;
+    const colSpan = mergeInfo[i]?.col_span ?? 1;
+    if (rowSpan <= 1 && colSpan <= 1) continue;
+    const row = Math.floor(i / column_size);
+    const column = i % column_size;
+    const merge = await client.docx.documentBlock.patch({
+      path: { document_id: docToken, block_id: tableId },
+      data: {
+        merge_table_cells: {
+          row_start_index: row,
+          row_end_index: row + rowSpan,
+          column_start_index: column,
+          column_end_index: column + colSpan,
+        },
+      },
+    });
+    if (merge.code !== 0) throw new Error(merge.msg);
+  }
 
-  const childIds =
-    existing.data?.items
-      ?.filter((b) => b.parent_id === docToken && b.block_type !== 1)
-      .map((b) => b.block_id) ?? [];
+  return { block: created, descendants, skipped };
+}
 
-  if (childIds.length > 0) {
-    const res = await client.docx.documentBlockChildren.batchDelete({
-      path: { document_id: docToken, block_id: docToken },
-      data: { start_index: 0, end_index: childIds.length },
+/** Every block of the document, following pagination (the first page alone stops at 500). */
+async function listAllBlocks(client: Lark.Client, docToken: string) {
+  const blocks: any[] = [];
+  let pageToken: string | undefined;
+  do {
+    const res = await client.docx.documentBlock.list({
+      path: { document_id: docToken },
+      params: { page_size: 500, page_token: pageToken },
     });
     if (res.code !== 0) throw new Error(res.msg);
-  }
+    blocks.push(...(res.data?.items ?? []));
+    pageToken = res.data?.has_more ? res.data.page_token : undefined;
+  } while (pageToken);
+  return blocks;
+}
+
+/** Direct children of a block, following pagination */
+async function listChildBlocks(client: Lark.Client, docToken: string, blockId: string) {
+  const items: any[] = [];
+  let pageToken: string | undefined;
+  do {
+    const res = await client.docx.documentBlockChildren.get({
+      path: { document_id: docToken, block_id: blockId },
+      params: { page_size: 500, page_token: pageToken },
+    });
+    if (res.code !== 0) throw new Error(res.msg);
+    items.push(...(res.data?.items ?? []));
+    pageToken = res.data?.has_more ? res.data.page_token : undefined;
+  } while (pageToken);
+  return items;
+}
 
-  return childIds.length;
+async function clearDocumentContent(client: Lark.Client, docToken: string) {
+  const children = await listChildBlocks(client, docToken, docToken);
+  await deleteChildren(client, docToken, docToken, 0, children.length);
+  return children.length;
 }
 
 async function uploadImageToDocx(
@@ -184,7 +406,17 @@ async function uploadImageToDocx(
   return fileToken;
 }
 
-async function downloadImage(url: string): Promise<Buffer> {
+// Docx images are limited to 20MB
+const MAX_DOCX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+async function downloadImage(client: Lark.Client, url: string): Promise<Buffer> {
+  if (url.startsWith(DOCX_IMAGE_URL_PREFIX)) {
+    // An image already in a document, referenced by its media token
+    const res = await client.drive.media.download({
+      path: { file_token: url.slice(DOCX_IMAGE_URL_PREFIX.length) },
+    });
+    return (await readFeishuDownload(res, MAX_DOCX_IMAGE_BYTES, "Image download")).buffer;
+  }
   const response = await fetch(url);
   if (!response.ok) {
     throw new Error(`Failed to download image: ${response.status} ${response.statusText}`);
@@ -209,8 +441,8 @@ async function processImages(
     const blockId = imageBlocks[i].block_id;
 
     try {
-      const buffer = await downloadImage(url);
-      const urlPath = new URL(url).pathname;
+      const buffer = await downloadImage(client, url);
+      const urlPath = url.startsWith(DOCX_IMAGE_URL_PREFIX) ? "" : new URL(url).pathname;
       const fileName = urlPath.split("/").pop() || `image_${i}.png`;
       const fileToken = await uploadImageToDocx(client, blockId, buffer, fileName);
 
@@ -234,16 +466,31 @@ async function processImages(
 
 const STRUCTURED_BLOCK_TYPES = new Set([14, 18, 21, 23, 27, 30, 31, 32]);
 
+async function readDocAsMarkdown(client: Lark.Client, docToken: string) {
+  const [infoRes, blocks] = await Promise.all([
+    client.docx.document.get({ path: { document_id: docToken } }),
+    listAllBlocks(client, docToken),
+  ]);
+  if (infoRes.code !== 0) throw new Error(infoRes.msg);
+
+  return {
+    title: infoRes.data?.document?.title,
+    format: "markdown",
+    content: renderDocxBlocksToMarkdown(blocks, docToken),
+    revision_id: infoRes.data?.document?.revision_id,
+    block_count: blocks.length,
+  };
+}
+
 async function readDoc(client: Lark.Client, docToken: string) {
-  const [contentRes, infoRes, blocksRes] = await Promise.all([
+  const [contentRes, infoRes, blocks] = await Promise.all([
     client.docx.document.rawContent({ path: { document_id: docToken } }),
     client.docx.document.get({ path: { document_id: docToken } }),
-    client.docx.documentBlock.list({ path: { document_id: docToken } }),
+    listAllBlocks(client, docToken),
   ]);
 
   if (contentRes.code !== 0) throw new Error(contentRes.msg);
 
-  const blocks = blocksRes.data?.items ?? [];
   const blockCounts: Record<string, number> = {};
   const structuredTypes: string[] = [];
 
@@ -259,7 +506,7 @@ async function readDoc(client: Lark.Client, docToken: string) {
 
   let hint: string | undefined;
   if (structuredTypes.length > 0) {
-    hint = `This document contains ${structuredTypes.join(", ")} which are NOT included in the plain text above. Use feishu_doc with action: "list_blocks" to get full content.`;
+    hint = `This document contains ${structuredTypes.join(", ")} which are NOT included in the plain text above. Use feishu_doc with action: "read" and format: "markdown" to get full content.`;
   }
 
   return {
@@ -285,16 +532,46 @@ async function createDoc(client: Lark.Client, title: string, folderToken?: strin
   };
 }
 
-async function writeDoc(client: Lark.Client, docToken: string, markdown: string) {
+/** Progress of a long write/append, as a short status line */
+type DocProgress = (message: string) => void;
+
+// Tool progress updates go out at most this often
+const PROGRESS_INTERVAL_MS = 2000;
+
+/** Forward progress to the tool's partial-result callback, throttled */
+function createProgressReporter(onUpdate?: (partialResult: unknown) => void): DocProgress | undefined {
+  if (!onUpdate) return undefined;
+  let lastAt = 0;
+  return (message) => {
+    const now = Date.now();
+    if (now - lastAt < PROGRESS_INTERVAL_MS) return;
+    lastAt = now;
+    onUpdate({ content: [{ type: "text", text: message }], details: { status: "running", progress: message } });
+  };
+}
+
+function trackInsertProgress(total: number, onProgress?: DocProgress): InsertProgress | undefined {
+  if (!onProgress) return undefined;
+  let created = 0;
+  return (count) => {
+    created += count;
+    onProgress(`Inserted ${Math.min(created, total)}/${total} blocks`);
+  };
+}
+
+async function writeDoc(client: Lark.Client, docToken: string, markdown: string, onProgress?: DocProgress) {
   const deleted = await clearDocumentContent(client, docToken);
+  if (deleted > 0) onProgress?.(`Cleared ${deleted} blocks`);
 
-  const { blocks } = await convertMarkdown(client, markdown);
+  const { blocks, blockMap } = await convertMarkdown(client, markdown);
   if (blocks.length === 0) {
     return { success: true, blocks_deleted: deleted, blocks_added: 0, images_processed: 0 };
   }
 
-  const { children: inserted, skipped } = await insertBlocks(client, docToken, blocks);
-  const imagesProcessed = await processImages(client, docToken, markdown, inserted);
+  const { children: inserted, descendants, skipped } = await insertBlocks(client, docToken, blocks, blockMap, {
+    onProgress: trackInsertProgress(blockMap.size, onProgress),
+  });
+  const imagesProcessed = await processImages(client, docToken, markdown, descendants);
 
   return {
     success: true,
@@ -302,19 +579,21 @@ async function writeDoc(client: Lark.Client, docToken: string, markdown: string)
     blocks_added: inserted.length,
     images_processed: imagesProcessed,
     ...(skipped.length > 0 && {
-      warning: `Skipped unsupported block types: ${skipped.join(", ")}. Tables are not supported via this API.`,
+      warning: `Skipped unsupported block types: ${skipped.join(", ")}`,
     }),
   };
 }
 
-async function appendDoc(client: Lark.Client, docToken: string, markdown: string) {
-  const { blocks } = await convertMarkdown(client, markdown);
+async function appendDoc(client: Lark.Client, docToken: string, markdown: string, onProgress?: DocProgress) {
+  const { blocks, blockMap } = await convertMarkdown(client, markdown);
   if (blocks.length === 0) {
     throw new Error("Content is empty");
   }
 
-  const { children: inserted, skipped } = await insertBlocks(client, docToken, blocks);
-  const imagesProcessed = await processImages(client, docToken, markdown, inserted);
+  const { children: inserted, descendants, skipped } = await insertBlocks(client, docToken, blocks, blockMap, {
+    onProgress: trackInsertProgress(blockMap.size, onProgress),
+  });
+  const imagesProcessed = await processImages(client, docToken, markdown, descendants);
 
   return {
     success: true,
@@ -322,11 +601,189 @@ async function appendDoc(client: Lark.Client, docToken: string, markdown: string
     images_processed: imagesProcessed,
     block_ids: inserted.map((b: any) => b.block_id),
     ...(skipped.length > 0 && {
-      warning: `Skipped unsupported block types: ${skipped.join(", ")}. Tables are not supported via this API.`,
+      warning: `Skipped unsupported block types: ${skipped.join(", ")}`,
     }),
   };
 }
 
+/** Position of a block among its parent's children */
+async function locateBlock(client: Lark.Client, docToken: string, blockId: string) {
+  const blockInfo = await client.docx.documentBlock.get({
+    path: { document_id: docToken, block_id: blockId },
+  });
+  if (blockInfo.code !== 0) throw new Error(blockInfo.msg);
+
+  const parentId = blockInfo.data?.block?.parent_id || docToken;
+  const items = await listChildBlocks(client, docToken, parentId);
+  const index = items.findIndex((item: any) => item.block_id === blockId);
+  if (index === -1) throw new Error("Block not found");
+  return { parentId, index };
+}
+
+/** Index of the top-level heading matching `heading`: exact text first, then containing it */
+function findHeadingIndex(items: any[], heading: string) {
+  const wanted = heading.replace(/^#+\s*/, "").trim();
+  const isHeading = (item: any) => headingLevel(item) !== undefined;
+  let index = items.findIndex((item) => isHeading(item) && blockPlainText(item).trim() === wanted);
+  if (index === -1) index = items.findIndex((item) => isHeading(item) && blockPlainText(item).includes(wanted));
+  if (index === -1) throw new Error(`Heading not found: ${wanted}`);
+  return index;
+}
+
+async function insertDoc(
+  client: Lark.Client,
+  docToken: string,
+  markdown: string,
+  target: { afterBlockId?: string; afterHeading?: string },
+  onProgress?: DocProgress,
+) {
+  let parentId = docToken;
+  let index: number;
+  if (target.afterBlockId) {
+    ({ parentId, index } = await locateBlock(client, docToken, target.afterBlockId));
+  } else if (target.afterHeading) {
+    index = findHeadingIndex(await listChildBlocks(client, docToken, docToken), target.afterHeading);
+  } else {
+    throw new Error("after_block_id or after_heading is required");
+  }
+
+  const { blocks, blockMap } = await convertMarkdown(client, markdown);
+  if (blocks.length === 0) {
+    throw new Error("Content is empty");
+  }
+
+  const { children: inserted, descendants, skipped } = await insertBlocks(client, docToken, blocks, blockMap, {
+    parentBlockId: parentId,
+    index: index + 1,
+    onProgress: trackInsertProgress(blockMap.size, onProgress),
+  });
+  const imagesProcessed = await processImages(client, docToken, markdown, descendants);
+
+  return {
+    success: true,
+    blocks_added: inserted.length,
+    images_processed: imagesProcessed,
+    block_ids: inserted.map((b: any) => b.block_id),
+    ...(skipped.length > 0 && {
+      warning: `Skipped unsupported block types: ${skipped.join(", ")}`,
+    }),
+  };
+}
+
+/**
+ * Replace what follows a top-level heading, up to the next heading of the same or a
+ * higher level. The heading itself stays.
+ */
+async function replaceSection(
+  client: Lark.Client,
+  docToken: string,
+  heading: string,
+  markdown: string,
+  onProgress?: DocProgress,
+) {
+  const items = await listChildBlocks(client, docToken, docToken);
+  const headingIndex = findHeadingIndex(items, heading);
+  const level = headingLevel(items[headingIndex])!;
+  let end = headingIndex + 1;
+  while (end < items.length && (headingLevel(items[end]) ?? Infinity) > level) end++;
+
+  // Convert first, so a failed conversion leaves the section as it was
+  const { blocks, blockMap } = markdown.trim()
+    ? await convertMarkdown(client, markdown)
+    : { blocks: [], blockMap: new Map() };
+  const deleted = end - headingIndex - 1;
+  await deleteChildren(client, docToken, docToken, headingIndex + 1, deleted);
+  if (deleted > 0) onProgress?.(`Cleared ${deleted} blocks`);
+
+  const { children: inserted, descendants, skipped } =
+    blocks.length > 0
+      ? await insertBlocks(client, docToken, blocks, blockMap, {
+          index: headingIndex + 1,
+          onProgress: trackInsertProgress(blockMap.size, onProgress),
+        })
+      : { children: [], descendants: [], skipped: [] };
+  const imagesProcessed = await processImages(client, docToken, markdown, descendants);
+
+  return {
+    success: true,
+    heading: blockPlainText(items[headingIndex]),
+    blocks_deleted: deleted,
+    blocks_added: inserted.length,
+    images_processed: imagesProcessed,
+    block_ids: inserted.map((b: any) => b.block_id),
+    ...(skipped.length > 0 && {
+      warning: `Skipped unsupported block types: ${skipped.join(", ")}`,
+    }),
+  };
+}
+
+// Stands in for mentions and equations, so matches never span them
+const OBJECT_PLACEHOLDER = "\uFFFC";
+
+/**
+ * Replace `find` in a block's elements. Matches may span several text runs: the
+ * replacement takes the style of the run the match starts in, and runs left empty go.
+ */
+function replaceInElements(elements: any[], find: string, replace: string) {
+  const offsets: number[] = [];
+  let text = "";
+  for (const el of elements) {
+    offsets.push(text.length);
+    text += el.text_run ? (el.text_run.content ?? "") : OBJECT_PLACEHOLDER;
+  }
+  const matches: number[] = [];
+  for (let at = text.indexOf(find); at !== -1; at = text.indexOf(find, at + find.length)) matches.push(at);
+  if (matches.length === 0) return { elements, count: 0 };
+
+  let m = 0;
+  const updated = elements.map((el, i) => {
+    if (!el.text_run) return el;
+    const content: string = el.text_run.content ?? "";
+    let out = "";
+    for (let c = 0; c < content.length; c++) {
+      const at = offsets[i] + c;
+      while (m < matches.length && at >= matches[m] + find.length) m++;
+      if (m < matches.length && at >= matches[m]) {
+        if (at === matches[m]) out += replace;
+      } else {
+        out += content[c];
+      }
+    }
+    return { ...el, text_run: { ...el.text_run, content: out } };
+  });
+  const kept = updated.filter((el) => !el.text_run || el.text_run.content);
+  return { elements: kept.length > 0 ? kept : updated.slice(0, 1), count: matches.length };
+}
+
+// Blocks per batchUpdate call
+const MAX_UPDATES_PER_REQUEST = 200;
+
+async function findReplace(client: Lark.Client, docToken: string, find: string, replace: string) {
+  if (!find) throw new Error("find must not be empty");
+
+  const requests: any[] = [];
+  let replacements = 0;
+  for (const block of await listAllBlocks(client, docToken)) {
+    const elements = textElementsOf(block);
+    if (!elements?.length) continue;
+    const result = replaceInElements(elements, find, replace);
+    if (result.count === 0) continue;
+    replacements += result.count;
+    requests.push({ block_id: block.block_id, update_text_elements: { elements: result.elements } });
+  }
+
+  for (let start = 0; start < requests.length; start += MAX_UPDATES_PER_REQUEST) {
+    const res = await client.docx.documentBlock.batchUpdate({
+      path: { document_id: docToken },
+      data: { requests: requests.slice(start, start + MAX_UPDATES_PER_REQUEST) },
+    });
+    if (res.code !== 0) throw new Error(res.msg);
+  }
+
+  return { success: true, replacements, blocks_updated: requests.length };
+}
+
+/** Replace a block's text with one Markdown paragraph, keeping inline styles and links */
 async function updateBlock(
   client: Lark.Client,
   docToken: string,
@@ -337,13 +794,24 @@ async function updateBlock(
     path: { document_id: docToken, block_id: blockId },
   });
   if (blockInfo.code !== 0) throw new Error(blockInfo.msg);
+  const block = blockInfo.data?.block;
+  if (!block || !textElementsOf(block)) {
+    throw new Error(`Block type ${block?.block_type} has no text to update`);
+  }
+
+  const { blocks } = await convertMarkdown(client, content);
+  if (blocks.length !== 1) {
+    throw new Error(
+      `Content converts to ${blocks.length} blocks, update_block takes a single paragraph. Use insert or replace_section for longer content`,
+    );
+  }
+  const elements = textElementsOf(blocks[0]);
+  if (!elements) throw new Error("Content has no text");
 
   const res = await client.docx.documentBlock.patch({
     path: { document_id: docToken, block_id: blockId },
     data: {
-      update_text_elements: {
-        elements: [{ text_run: { content } }],
-      },
+      update_text_elements: { elements },
     },
   });
   if (res.code !== 0) throw new Error(res.msg);
@@ -352,21 +820,7 @@ async function updateBlock(
 }
 
 async function deleteBlock(client: Lark.Client, docToken: string, blockId: string) {
-  const blockInfo = await client.docx.documentBlock.get({
-    path: { document_id: docToken, block_id: blockId },
-  });
-  if (blockInfo.code !== 0) throw new Error(blockInfo.msg);
-
-  const parentId = blockInfo.data?.block?.parent_id ?? docToken;
-
-  const children = await client.docx.documentBlockChildren.get({
-    path: { document_id: docToken, block_id: parentId },
-  });
-  if (children.code !== 0) throw new Error(children.msg);
-
-  const items = children.data?.items ?? [];
-  const index = items.findIndex((item: any) => item.block_id === blockId);
-  if (index === -1) throw new Error("Block not found");
+  const { parentId, index } = await locateBlock(client, docToken, blockId);
 
   const res = await client.docx.documentBlockChildren.batchDelete({
     path: { document_id: docToken, block_id: parentId },
@@ -378,13 +832,8 @@ async function deleteBlock(client: Lark.Client, docToken: string, blockId: strin
 }
 
 async function listBlocks(client: Lark.Client, docToken: string) {
-  const res = await client.docx.documentBlock.list({
-    path: { document_id: docToken },
-  });
-  if (res.code !== 0) throw new Error(res.msg);
-
   return {
-    blocks: res.data?.items ?? [],
+    blocks: await listAllBlocks(client, docToken),
   };
 }
 
@@ -417,36 +866,61 @@ async function listAppScopes(client: Lark.Client) {
 // ============ Tool Registration ============
 
 export function registerFeishuDocTools(api: OpenClawPluginApi) {
-  const feishuCfg = api.config?.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg?.appId || !feishuCfg?.appSecret) {
+  if (!api.config || listEnabledFeishuAccounts(api.config).length === 0) {
     api.logger.debug?.("feishu_doc: Feishu credentials not configured, skipping doc tools");
     return;
   }
-
-  const toolsCfg = resolveToolsConfig(feishuCfg.tools);
-  const getClient = () => createFeishuClient(feishuCfg);
+  const feishuCfg = api.config.channels?.feishu as FeishuConfig | undefined;
+
+  const toolsCfg = resolveToolsConfig(feishuCfg?.tools);
+  // Resolved per run, so tools act as the account of the conversation that invoked them
+  const getClient = (ctx: OpenClawPluginToolContext) =>
+    createFeishuToolClient({
+      cfg: api.config,
+      messageChannel: ctx.messageChannel,
+      agentAccountId: ctx.agentAccountId,
+    });
   const registered: string[] = [];
 
   // Main document tool with action-based dispatch
   if (toolsCfg.doc) {
     api.registerTool(
-    {
+    (ctx: OpenClawPluginToolContext) => ({
       name: "feishu_doc",
       label: "Feishu Doc",
       description:
-        "Feishu document operations. Actions: read, write, append, create, list_blocks, get_block, update_block, delete_block",
+        "Feishu document operations. Actions: read, write, append, insert, replace_section, find_replace, create, list_blocks, get_block, update_block, delete_block",
       parameters: FeishuDocSchema,
-      async execute(_toolCallId, params) {
+      async execute(_toolCallId, params, _signal, onUpdate) {
         const p = params as FeishuDocParams;
         try {
-          const client = getClient();
+          const client = getClient(ctx);
+          const onProgress = createProgressReporter(onUpdate);
           switch (p.action) {
             case "read":
-              return json(await readDoc(client, p.doc_token));
+              return json(
+                p.format === "markdown"
+                  ? await readDocAsMarkdown(client, p.doc_token)
+                  : await readDoc(client, p.doc_token),
+              );
             case "write":
-              return json(await writeDoc(client, p.doc_token, p.content));
+              return json(await writeDoc(client, p.doc_token, p.content, onProgress));
             case "append":
-              return json(await appendDoc(client, p.doc_token, p.content));
+              return json(await appendDoc(client, p.doc_token, p.content, onProgress));
+            case "insert":
+              return json(
+                await insertDoc(
+                  client,
+                  p.doc_token,
+                  p.content,
+                  { afterBlockId: p.after_block_id, afterHeading: p.after_heading },
+                  onProgress,
+                ),
+              );
+            case "replace_section":
+              return json(await replaceSection(client, p.doc_token, p.heading, p.content, onProgress));
+            case "find_replace":
+              return json(await findReplace(client, p.doc_token, p.find, p.replace));
             case "create":
               return json(await createDoc(client, p.title, p.folder_token));
             case "list_blocks":
@@ -464,7 +938,7 @@ export function registerFeishuDocTools(api: OpenClawPluginApi) {
           return json({ error: err instanceof Error ? err.message : String(err) });
         }
       },
-    },
+    }),
     { name: "feishu_doc" },
   );
     registered.push("feishu_doc");
@@ -473,7 +947,7 @@ export function registerFeishuDocTools(api: OpenClawPluginApi) {
   // Keep feishu_app_scopes as independent tool
   if (toolsCfg.scopes) {
     api.registerTool(
-    {
+    (ctx: OpenClawPluginToolContext) => ({
       name: "feishu_app_scopes",
       label: "Feishu App Scopes",
       description:
@@ -481,13 +955,13 @@ export function registerFeishuDocTools(api: OpenClawPluginApi) {
       parameters: Type.Object({}),
       async execute() {
         try {
-          const result = await listAppScopes(getClient());
+          const result = await listAppScopes(getClient(ctx));
           return json(result);
         } catch (err) {
           return json({ error: err instanceof Error ? err.message : String(err) });
         }
       },
-    },
+    }),
     { name: "feishu_app_scopes" },
   );
     registered.push("feishu_app_scopes");
@@ -1,5 +1,6 @@
-import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
-import { createFeishuClient } from "./client.js";
+import type { OpenClawPluginApi, OpenClawPluginToolContext } from "openclaw/plugin-sdk";
+import { createFeishuToolClient } from "./client.js";
+import { listEnabledFeishuAccounts } from "./accounts.js";
 import type { FeishuConfig } from "./types.js";
 import type * as Lark from "@larksuiteoapi/node-sdk";
 import { FeishuDriveSchema, type FeishuDriveParams } from "./drive-schema.js";
@@ -16,7 +17,7 @@ function json(data: unknown) {
 
 // ============ Actions ============
 
-async function getRootFolderToken(client: Lark.Client): Promise<string> {
+export async function getRootFolderToken(client: Lark.Client): Promise<string> {
   // Use generic HTTP client to call the root folder meta API
   // as it's not directly exposed in the SDK
   const domain = (client as any).domain ?? "https://open.feishu.cn";
@@ -150,22 +151,28 @@ async function deleteFile(client: Lark.Client, fileToken: string, type: string)
 // ============ Tool Registration ============
 
 export function registerFeishuDriveTools(api: OpenClawPluginApi) {
-  const feishuCfg = api.config?.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg?.appId || !feishuCfg?.appSecret) {
+  if (!api.config || listEnabledFeishuAccounts(api.config).length === 0) {
     api.logger.debug?.("feishu_drive: Feishu credentials not configured, skipping drive tools");
     return;
   }
+  const feishuCfg = api.config.channels?.feishu as FeishuConfig | undefined;
 
-  const toolsCfg = resolveToolsConfig(feishuCfg.tools);
+  const toolsCfg = resolveToolsConfig(feishuCfg?.tools);
   if (!toolsCfg.drive) {
     api.logger.debug?.("feishu_drive: drive tool disabled in config");
     return;
   }
 
-  const getClient = () => createFeishuClient(feishuCfg);
+  // Resolved per run, so tools act as the account of the conversation that invoked them
+  const getClient = (ctx: OpenClawPluginToolContext) =>
+    createFeishuToolClient({
+      cfg: api.config,
+      messageChannel: ctx.messageChannel,
+      agentAccountId: ctx.agentAccountId,
+    });
 
   api.registerTool(
-    {
+    (ctx: OpenClawPluginToolContext) => ({
       name: "feishu_drive",
       label: "Feishu Drive",
       description:
@@ -174,7 +181,7 @@ export function registerFeishuDriveTools(api: OpenClawPluginApi) {
       async execute(_toolCallId, params) {
         const p = params as FeishuDriveParams;
         try {
-          const client = getClient();
+          const client = getClient(ctx);
           switch (p.action) {
             case "list":
               return json(await listFolder(client, p.folder_token));
@@ -193,7 +200,7 @@ export function registerFeishuDriveTools(api: OpenClawPluginApi) {
           return json({ error: err instanceof Error ? err.message : String(err) });
         }
       },
-    },
+    }),
     { name: "feishu_drive" },
   );
 
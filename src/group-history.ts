@@ -0,0 +1,146 @@
+import type { HistoryEntry, ReplyPayload } from "openclaw/plugin-sdk";
+import { recordPendingHistoryEntryIfEnabled } from "openclaw/plugin-sdk";
+import { stickerReference } from "./message-content.js";
+
+// Group messages the bot saw but did not answer, replayed as context when it is next
+// mentioned. Kept at module level, per account, so the buffer survives reconnects.
+const historiesByAccount = new Map<string, Map<string, HistoryEntry[]>>();
+
+export function getFeishuChatHistories(accountId: string): Map<string, HistoryEntry[]> {
+  let histories = historiesByAccount.get(accountId);
+  if (!histories) {
+    histories = new Map();
+    historiesByAccount.set(accountId, histories);
+  }
+  return histories;
+}
+
+/** Image referenced by a buffered message; downloaded only once the bot is mentioned */
+export type FeishuHistoryImageRef = {
+  messageId: string;
+  imageKey: string;
+};
+
+// Per account, keyed `<chatId>:<messageId>`
+const MAX_TRACKED_IMAGE_MESSAGES = 1000;
+const historyImagesByAccount = new Map<string, Map<string, FeishuHistoryImageRef[]>>();
+
+function getHistoryImages(accountId: string) {
+  let images = historyImagesByAccount.get(accountId);
+  if (!images) {
+    images = new Map();
+    historyImagesByAccount.set(accountId, images);
+  }
+  return images;
+}
+
+export function rememberHistoryImages(params: {
+  accountId: string;
+  chatId: string;
+  messageId: string;
+  imageKeys: string[];
+}): void {
+  const { accountId, chatId, messageId, imageKeys } = params;
+  if (imageKeys.length === 0) return;
+  const images = getHistoryImages(accountId);
+  images.set(
+    `${chatId}:${messageId}`,
+    imageKeys.map((imageKey) => ({ messageId, imageKey })),
+  );
+  for (const key of images.keys()) {
+    if (images.size <= MAX_TRACKED_IMAGE_MESSAGES) break;
+    images.delete(key);
+  }
+}
+
+/** Images of the given entries, the most recent `limit` of them, in chronological order. */
+export function collectHistoryImages(params: {
+  accountId: string;
+  chatId: string;
+  entries: HistoryEntry[] | undefined;
+  limit: number;
+}): FeishuHistoryImageRef[] {
+  const { accountId, chatId, entries, limit } = params;
+  const images = historyImagesByAccount.get(accountId);
+  if (!images) return [];
+  const refs = (entries ?? []).flatMap((entry) =>
+    entry.messageId ? (images.get(`${chatId}:${entry.messageId}`) ?? []) : [],
+  );
+  return limit > 0 ? refs.slice(-limit) : [];
+}
+
+/** Drop the image references of a chat, e.g. when the bot leaves it. */
+export function forgetHistoryImages(accountId: string, chatId: string): void {
+  const images = historyImagesByAccount.get(accountId);
+  for (const key of images?.keys() ?? []) {
+    if (key.startsWith(`${chatId}:`)) images?.delete(key);
+  }
+}
+
+/**
+ * History body for a message the bot did not answer: text as-is, media as the same
+ * `<media:*>` placeholders the agent sees for live messages.
+ */
+export function describeFeishuHistoryMessage(params: {
+  messageType: string;
+  /** Parsed text (`FeishuMessageContext.content`) */
+  text: string;
+  /** Raw `message.content` JSON */
+  rawContent: string;
+}): string {
+  const { messageType, text, rawContent } = params;
+  let parsed: { file_name?: string } = {};
+  try {
+    parsed = JSON.parse(rawContent);
+  } catch {
+    // Placeholder only
+  }
+  switch (messageType) {
+    case "image":
+      return "<media:image>";
+    case "file":
+      return `<media:document>${parsed.file_name ? ` ${parsed.file_name}` : ""}`;
+    case "audio":
+      return "<media:audio>";
+    case "video":
+    case "media":
+      return `<media:video>${parsed.file_name ? ` ${parsed.file_name}` : ""}`;
+    case "sticker": {
+      const reference = stickerReference(rawContent);
+      return reference ? `<media:sticker> ${reference}` : "<media:sticker>";
+    }
+    default:
+      return text;
+  }
+}
+
+// Long answers only need enough to be referred back to
+const MAX_BOT_REPLY_HISTORY_CHARS = 500;
+
+export function describeBotReplyForHistory(payload: ReplyPayload): string {
+  const text = payload.text?.trim() ?? "";
+  const clipped =
+    text.length > MAX_BOT_REPLY_HISTORY_CHARS ? `${text.slice(0, MAX_BOT_REPLY_HISTORY_CHARS)}…` : text;
+  const mediaCount = payload.mediaUrls?.length ?? (payload.mediaUrl ? 1 : 0);
+  const media = mediaCount > 0 ? " <media:attachment>".repeat(mediaCount).trim() : "";
+  return [clipped, media].filter(Boolean).join(" ");
+}
+
+/** Buffer the bot's own replies so later turns can refer to them ("the chart above"). */
+export function recordBotRepliesToHistory(params: {
+  historyMap: Map<string, HistoryEntry[]>;
+  historyKey: string;
+  limit: number;
+  replies: string[];
+}): void {
+  const { historyMap, historyKey, limit, replies } = params;
+  for (const body of replies) {
+    if (!body) continue;
+    recordPendingHistoryEntryIfEnabled({
+      historyMap,
+      historyKey,
+      limit,
+      entry: { sender: "bot", body: `[Bot]: ${body}`, timestamp: Date.now() },
+    });
+  }
+}
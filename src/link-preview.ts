@@ -0,0 +1,109 @@
+// Share card for a web page sent as media: title, summary and image from the page's
+// Open Graph / meta tags, plus a button that opens it.
+
+export type LinkPreview = {
+  url: string;
+  title: string;
+  description?: string;
+  /** Absolute http(s) URL of og:image */
+  imageUrl?: string;
+  siteName?: string;
+};
+
+const MAX_DESCRIPTION_CHARS = 200;
+
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i").exec(tag);
+  const value = match?.[1] ?? match?.[2] ?? match?.[3];
+  return value === undefined ? undefined : decodeHtmlEntities(value).trim();
+}
+
+function collectMetaTags(html: string): Map<string, string> {
+  const metas = new Map<string, string>();
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = (readAttribute(tag, "property") ?? readAttribute(tag, "name"))?.toLowerCase();
+    const content = readAttribute(tag, "content");
+    if (key && content && !metas.has(key)) metas.set(key, content);
+  }
+  return metas;
+}
+
+/** Pull a preview out of a page's HTML; falls back to `<title>` and the host name. */
+export function parseLinkPreview(html: string, url: string): LinkPreview {
+  const metas = collectMetaTags(html);
+  const pageTitle = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+  const host = new URL(url).hostname;
+
+  const title =
+    metas.get("og:title") ??
+    metas.get("twitter:title") ??
+    (pageTitle ? decodeHtmlEntities(pageTitle).replace(/\s+/g, " ").trim() : undefined);
+  const description = (metas.get("og:description") ?? metas.get("twitter:description") ?? metas.get("description"))
+    ?.replace(/\s+/g, " ");
+  const image = metas.get("og:image") ?? metas.get("og:image:url") ?? metas.get("twitter:image");
+  let imageUrl: string | undefined;
+  try {
+    const resolved = image ? new URL(image, url) : undefined;
+    // The page picks this URL; anything but the web (file:, data:...) is ignored
+    if (resolved && (resolved.protocol === "http:" || resolved.protocol === "https:")) {
+      imageUrl = resolved.toString();
+    }
+  } catch {
+    // Unusable image URL: preview without image
+  }
+
+  return {
+    url,
+    title: title || host,
+    description:
+      description && description.length > MAX_DESCRIPTION_CHARS
+        ? `${description.slice(0, MAX_DESCRIPTION_CHARS)}…`
+        : description || undefined,
+    imageUrl,
+    siteName: metas.get("og:site_name") ?? host,
+  };
+}
+
+export function buildLinkPreviewCard(preview: LinkPreview, imageKey?: string): Record<string, unknown> {
+  const elements: Record<string, unknown>[] = [];
+  if (imageKey) {
+    elements.push({
+      tag: "img",
+      img_key: imageKey,
+      alt: { tag: "plain_text", content: preview.title },
+      scale_type: "crop_center",
+    });
+  }
+  if (preview.description) {
+    elements.push({ tag: "div", text: { tag: "plain_text", content: preview.description } });
+  }
+  elements.push({
+    tag: "button",
+    text: { tag: "plain_text", content: "打开链接" },
+    type: "primary",
+    behaviors: [{ type: "open_url", default_url: preview.url }],
+  });
+
+  return {
+    schema: "2.0",
+    config: { wide_screen_mode: true },
+    header: {
+      title: { tag: "plain_text", content: preview.title },
+      subtitle: { tag: "plain_text", content: preview.siteName ?? "" },
+      template: "blue",
+    },
+    body: { elements },
+  };
+}
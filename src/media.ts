@@ -1,11 +1,17 @@
 import type { ClawdbotConfig } from "openclaw/plugin-sdk";
-import type { FeishuConfig } from "./types.js";
 import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccount } from "./accounts.js";
 import { resolveReceiveIdType, normalizeFeishuTarget } from "./targets.js";
 import fs from "fs";
 import path from "path";
 import os from "os";
 import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { extractVideoFrame, getOggOpusDurationMs, transcodeToOpus } from "./audio.js";
+import { getRootFolderToken } from "./drive.js";
+import { sendCardFeishu, sendMessageFeishu } from "./send.js";
+import { buildLinkPreviewCard, parseLinkPreview } from "./link-preview.js";
+import { STICKER_URL_PREFIX } from "./message-content.js";
 
 export type DownloadImageResult = {
   buffer: Buffer;
@@ -18,21 +24,137 @@ export type DownloadMessageResourceResult = {
   fileName?: string;
 };
 
+// Same default as `mediaMaxMb`
+const DEFAULT_MEDIA_MAX_BYTES = 30 * 1024 * 1024;
+// im/v1/files rejects anything larger; bigger files go through Drive's chunked upload
+const MAX_IM_FILE_BYTES = 30 * 1024 * 1024;
+
+function formatMb(bytes: number): string {
+  return (bytes / 1024 / 1024).toFixed(1).replace(/\.0$/, "");
+}
+
+/**
+ * Turn whatever the SDK returned for a binary endpoint into a stream. Current SDKs
+ * return `{ getReadableStream, writeFile, headers }`; older ones returned buffers
+ * or the stream itself.
+ */
+async function feishuResponseToStream(response: unknown, label: string): Promise<Readable> {
+  const responseAny = response as any;
+  const raw = Buffer.isBuffer(responseAny) || responseAny instanceof ArrayBuffer ? responseAny : responseAny?.data;
+  if (Buffer.isBuffer(raw) || raw instanceof ArrayBuffer) {
+    return Readable.from([Buffer.from(raw as Buffer)]);
+  }
+  if (typeof responseAny?.getReadableStream === "function") {
+    return responseAny.getReadableStream();
+  }
+  if (responseAny instanceof Readable) {
+    return responseAny;
+  }
+  if (typeof responseAny?.[Symbol.asyncIterator] === "function") {
+    return Readable.from(responseAny);
+  }
+  if (typeof responseAny?.writeFile === "function") {
+    const tmpPath = path.join(os.tmpdir(), `feishu_${Date.now()}_${Math.random().toString(36).slice(2)}`);
+    await responseAny.writeFile(tmpPath);
+    const stream = fs.createReadStream(tmpPath);
+    stream.once("close", () => void fs.promises.unlink(tmpPath).catch(() => {}));
+    return stream;
+  }
+  const keys = Object.keys(responseAny ?? {});
+  const types = keys.map((k) => `${k}: ${typeof responseAny[k]}`).join(", ");
+  throw new Error(`${label} failed: unexpected response format. Keys: [${types}]`);
+}
+
+/** Pass chunks through, failing as soon as more than `maxBytes` have been read. */
+async function* limitBytes(
+  source: AsyncIterable<Buffer | Uint8Array | string>,
+  maxBytes: number,
+  label: string,
+): AsyncGenerator<Buffer> {
+  let total = 0;
+  for await (const chunk of source) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    total += buffer.length;
+    if (total > maxBytes) {
+      throw new Error(`${label} failed: larger than the ${formatMb(maxBytes)}MB limit`);
+    }
+    yield buffer;
+  }
+}
+
+function getHeader(headers: unknown, name: string): string | undefined {
+  const value = (headers as Record<string, unknown> | undefined)?.[name];
+  return typeof value === "string" ? value : Array.isArray(value) ? String(value[0]) : undefined;
+}
+
+function parseContentDispositionFileName(disposition: string | undefined): string | undefined {
+  if (!disposition) return undefined;
+  const encoded = /filename\*\s*=\s*(?:UTF-8|utf-8)''([^;]+)/.exec(disposition)?.[1];
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded.trim());
+    } catch {
+      // Fall back to the plain filename parameter
+    }
+  }
+  return /filename\s*=\s*"?([^";]+)"?/.exec(disposition)?.[1]?.trim() || undefined;
+}
+
+/**
+ * Read a download response into memory, aborting early once it exceeds `maxBytes`:
+ * before reading anything if Content-Length already says so, otherwise mid-stream.
+ */
+export async function readFeishuDownload(
+  response: unknown,
+  maxBytes: number,
+  label: string,
+): Promise<DownloadMessageResourceResult> {
+  const headers = (response as any)?.headers;
+  const contentLength = Number(getHeader(headers, "content-length"));
+  const stream = await feishuResponseToStream(response, label);
+  if (contentLength > maxBytes) {
+    stream.destroy();
+    throw new Error(
+      `${label} failed: ${formatMb(contentLength)}MB is larger than the ${formatMb(maxBytes)}MB limit`,
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  try {
+    for await (const chunk of limitBytes(stream, maxBytes, label)) {
+      chunks.push(chunk);
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  const contentType = getHeader(headers, "content-type")?.split(";")[0].trim();
+  return {
+    buffer: Buffer.concat(chunks),
+    // Generic types carry no information; let the caller sniff the bytes instead
+    contentType: contentType && contentType !== "application/octet-stream" ? contentType : undefined,
+    fileName: parseContentDispositionFileName(getHeader(headers, "content-disposition")),
+  };
+}
+
 /**
  * Download an image from Feishu using image_key.
  * Used for downloading images sent in messages.
  */
 export async function downloadImageFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   imageKey: string;
+  /** Abort once the image exceeds this size, default 30MB */
+  maxBytes?: number;
 }): Promise<DownloadImageResult> {
-  const { cfg, imageKey } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, imageKey, maxBytes = DEFAULT_MEDIA_MAX_BYTES } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
 
   const response = await client.im.image.get({
     path: { image_key: imageKey },
@@ -43,55 +165,8 @@ export async function downloadImageFeishu(params: {
     throw new Error(`Feishu image download failed: ${responseAny.msg || `code ${responseAny.code}`}`);
   }
 
-  // Handle various response formats from Feishu SDK
-  let buffer: Buffer;
-
-  if (Buffer.isBuffer(response)) {
-    buffer = response;
-  } else if (response instanceof ArrayBuffer) {
-    buffer = Buffer.from(response);
-  } else if (responseAny.data && Buffer.isBuffer(responseAny.data)) {
-    buffer = responseAny.data;
-  } else if (responseAny.data instanceof ArrayBuffer) {
-    buffer = Buffer.from(responseAny.data);
-  } else if (typeof responseAny.getReadableStream === "function") {
-    // SDK provides getReadableStream method
-    const stream = responseAny.getReadableStream();
-    const chunks: Buffer[] = [];
-    for await (const chunk of stream) {
-      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-    }
-    buffer = Buffer.concat(chunks);
-  } else if (typeof responseAny.writeFile === "function") {
-    // SDK provides writeFile method - use a temp file
-    const tmpPath = path.join(os.tmpdir(), `feishu_img_${Date.now()}_${imageKey}`);
-    await responseAny.writeFile(tmpPath);
-    buffer = await fs.promises.readFile(tmpPath);
-    await fs.promises.unlink(tmpPath).catch(() => {}); // cleanup
-  } else if (typeof responseAny[Symbol.asyncIterator] === "function") {
-    // Response is an async iterable
-    const chunks: Buffer[] = [];
-    for await (const chunk of responseAny) {
-      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-    }
-    buffer = Buffer.concat(chunks);
-  } else if (typeof responseAny.read === "function") {
-    // Response is a Readable stream
-    const chunks: Buffer[] = [];
-    for await (const chunk of responseAny as Readable) {
-      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-    }
-    buffer = Buffer.concat(chunks);
-  } else {
-    // Debug: log what we actually received
-    const keys = Object.keys(responseAny);
-    const types = keys.map(k => `${k}: ${typeof responseAny[k]}`).join(", ");
-    throw new Error(
-      `Feishu image download failed: unexpected response format. Keys: [${types}]`,
-    );
-  }
-
-  return { buffer };
+  const { buffer, contentType } = await readFeishuDownload(response, maxBytes, "Feishu image download");
+  return { buffer, contentType };
 }
 
 /**
@@ -100,17 +175,20 @@ export async function downloadImageFeishu(params: {
  */
 export async function downloadMessageResourceFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   fileKey: string;
   type: "image" | "file";
+  /** Abort once the resource exceeds this size, default 30MB */
+  maxBytes?: number;
 }): Promise<DownloadMessageResourceResult> {
-  const { cfg, messageId, fileKey, type } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, messageId, fileKey, type, maxBytes = DEFAULT_MEDIA_MAX_BYTES } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
 
   const response = await client.im.messageResource.get({
     path: { message_id: messageId, file_key: fileKey },
@@ -124,57 +202,8 @@ export async function downloadMessageResourceFeishu(params: {
     );
   }
 
-  // Handle various response formats from Feishu SDK
-  let buffer: Buffer;
-
-  if (Buffer.isBuffer(response)) {
-    buffer = response;
-  } else if (response instanceof ArrayBuffer) {
-    buffer = Buffer.from(response);
-  } else if (responseAny.data && Buffer.isBuffer(responseAny.data)) {
-    buffer = responseAny.data;
-  } else if (responseAny.data instanceof ArrayBuffer) {
-    buffer = Buffer.from(responseAny.data);
-  } else if (typeof responseAny.getReadableStream === "function") {
-    // SDK provides getReadableStream method
-    const stream = responseAny.getReadableStream();
-    const chunks: Buffer[] = [];
-    for await (const chunk of stream) {
-      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-    }
-    buffer = Buffer.concat(chunks);
-  } else if (typeof responseAny.writeFile === "function") {
-    // SDK provides writeFile method - use a temp file
-    const tmpPath = path.join(os.tmpdir(), `feishu_${Date.now()}_${fileKey}`);
-    await responseAny.writeFile(tmpPath);
-    buffer = await fs.promises.readFile(tmpPath);
-    await fs.promises.unlink(tmpPath).catch(() => {}); // cleanup
-  } else if (typeof responseAny[Symbol.asyncIterator] === "function") {
-    // Response is an async iterable
-    const chunks: Buffer[] = [];
-    for await (const chunk of responseAny) {
-      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-    }
-    buffer = Buffer.concat(chunks);
-  } else if (typeof responseAny.read === "function") {
-    // Response is a Readable stream
-    const chunks: Buffer[] = [];
-    for await (const chunk of responseAny as Readable) {
-      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-    }
-    buffer = Buffer.concat(chunks);
-  } else {
-    // Debug: log what we actually received
-    const keys = Object.keys(responseAny);
-    const types = keys.map(k => `${k}: ${typeof responseAny[k]}`).join(", ");
-    throw new Error(
-      `Feishu message resource download failed: unexpected response format. Keys: [${types}]`,
-    );
-  }
-
-  return { buffer };
+  return readFeishuDownload(response, maxBytes, "Feishu message resource download");
 }
-
 export type UploadImageResult = {
   imageKey: string;
 };
@@ -186,29 +215,37 @@ export type UploadFileResult = {
 export type SendMediaResult = {
   messageId: string;
   chatId: string;
+  /** Sent, but something the recipient may notice went wrong */
+  warning?: string;
 };
 
+// Paths are streamed from disk rather than read into memory first
+function toUploadStream(input: Buffer | string | Readable): Readable {
+  if (typeof input === "string") return fs.createReadStream(input);
+  return Buffer.isBuffer(input) ? Readable.from([input]) : input;
+}
+
 /**
  * Upload an image to Feishu and get an image_key for sending.
  * Supports: JPEG, PNG, WEBP, GIF, TIFF, BMP, ICO
  */
 export async function uploadImageFeishu(params: {
   cfg: ClawdbotConfig;
-  image: Buffer | string; // Buffer or file path
+  accountId?: string;
+  image: Buffer | string | Readable; // Buffer, file path or stream
   imageType?: "message" | "avatar";
 }): Promise<UploadImageResult> {
-  const { cfg, image, imageType = "message" } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, image, imageType = "message" } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
 
   // SDK expects a Readable stream, not a Buffer
   // Use type assertion since SDK actually accepts any Readable at runtime
-  const imageStream =
-    typeof image === "string" ? fs.createReadStream(image) : Readable.from(image);
+  const imageStream = toUploadStream(image);
 
   const response = await client.im.image.create({
     data: {
@@ -238,23 +275,21 @@ export async function uploadImageFeishu(params: {
  */
 export async function uploadFileFeishu(params: {
   cfg: ClawdbotConfig;
-  file: Buffer | string; // Buffer or file path
+  accountId?: string;
+  file: Buffer | string | Readable; // Buffer, file path or stream
   fileName: string;
   fileType: "opus" | "mp4" | "pdf" | "doc" | "xls" | "ppt" | "stream";
   duration?: number; // Required for audio/video files, in milliseconds
 }): Promise<UploadFileResult> {
-  const { cfg, file, fileName, fileType, duration } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, file, fileName, fileType, duration } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
 
-  // SDK expects a Readable stream, not a Buffer
-  // Use type assertion since SDK actually accepts any Readable at runtime
-  const fileStream =
-    typeof file === "string" ? fs.createReadStream(file) : Readable.from(file);
+  const fileStream = toUploadStream(file);
 
   const response = await client.im.file.create({
     data: {
@@ -279,22 +314,111 @@ export async function uploadFileFeishu(params: {
   return { fileKey };
 }
 
+export type UploadDriveFileResult = {
+  fileToken: string;
+  url?: string;
+};
+
+/**
+ * Upload a file to the bot's Drive in blocks (upload_prepare / upload_part /
+ * upload_finish), for files over the 30MB IM upload limit. Only one block is held
+ * in memory at a time.
+ */
+export async function uploadDriveFileChunkedFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  file: Buffer | string; // Buffer or file path
+  fileName: string;
+  /** Defaults to the bot's root folder */
+  folderToken?: string;
+}): Promise<UploadDriveFileResult> {
+  const { cfg, accountId, file, fileName } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
+  }
+
+  const client = createFeishuClient(account.config, account.accountId);
+  const size = typeof file === "string" ? (await fs.promises.stat(file)).size : file.length;
+  const folderToken = params.folderToken ?? (await getRootFolderToken(client));
+
+  const prepared = await client.drive.file.uploadPrepare({
+    data: { file_name: fileName, parent_type: "explorer", parent_node: folderToken, size },
+  });
+  if (prepared.code !== 0) {
+    throw new Error(`Feishu drive upload prepare failed: ${prepared.msg || `code ${prepared.code}`}`);
+  }
+  const uploadId = prepared.data?.upload_id;
+  const blockSize = prepared.data?.block_size;
+  const blockNum = prepared.data?.block_num;
+  if (!uploadId || !blockSize || !blockNum) {
+    throw new Error("Feishu drive upload prepare failed: no upload_id or block size returned");
+  }
+
+  const handle = typeof file === "string" ? await fs.promises.open(file, "r") : undefined;
+  try {
+    for (let seq = 0; seq < blockNum; seq++) {
+      const offset = seq * blockSize;
+      const length = Math.min(blockSize, size - offset);
+      let block: Buffer;
+      if (handle) {
+        block = Buffer.alloc(length);
+        await handle.read(block, 0, length, offset);
+      } else {
+        block = (file as Buffer).subarray(offset, offset + length);
+      }
+      const part = (await client.drive.file.uploadPart({
+        data: { upload_id: uploadId, seq, size: length, file: block },
+      })) as { code?: number; msg?: string } | null;
+      if (part?.code !== undefined && part.code !== 0) {
+        throw new Error(
+          `Feishu drive upload part ${seq + 1}/${blockNum} failed: ${part.msg || `code ${part.code}`}`,
+        );
+      }
+    }
+  } finally {
+    await handle?.close();
+  }
+
+  const finished = await client.drive.file.uploadFinish({
+    data: { upload_id: uploadId, block_num: blockNum },
+  });
+  if (finished.code !== 0) {
+    throw new Error(`Feishu drive upload finish failed: ${finished.msg || `code ${finished.code}`}`);
+  }
+  const fileToken = finished.data?.file_token;
+  if (!fileToken) {
+    throw new Error("Feishu drive upload finish failed: no file_token returned");
+  }
+
+  // The share link needs the tenant's domain, which only the meta API knows
+  const meta = await client.drive.meta
+    .batchQuery({
+      data: { request_docs: [{ doc_token: fileToken, doc_type: "file" }], with_url: true },
+    })
+    .catch(() => undefined);
+
+  return { fileToken, url: meta?.data?.metas?.[0]?.url };
+}
+
 /**
  * Send an image message using an image_key
  */
 export async function sendImageFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   imageKey: string;
   replyToMessageId?: string;
+  replyInThread?: boolean;
 }): Promise<SendMediaResult> {
-  const { cfg, to, imageKey, replyToMessageId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, to, imageKey, replyToMessageId, replyInThread } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
   const receiveId = normalizeFeishuTarget(to);
   if (!receiveId) {
     throw new Error(`Invalid Feishu target: ${to}`);
@@ -309,6 +433,7 @@ export async function sendImageFeishu(params: {
       data: {
         content,
         msg_type: "image",
+        reply_in_thread: replyInThread,
       },
     });
 
@@ -346,17 +471,19 @@ export async function sendImageFeishu(params: {
  */
 export async function sendFileFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   fileKey: string;
   replyToMessageId?: string;
+  replyInThread?: boolean;
 }): Promise<SendMediaResult> {
-  const { cfg, to, fileKey, replyToMessageId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, to, fileKey, replyToMessageId, replyInThread } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
   const receiveId = normalizeFeishuTarget(to);
   if (!receiveId) {
     throw new Error(`Invalid Feishu target: ${to}`);
@@ -371,6 +498,7 @@ export async function sendFileFeishu(params: {
       data: {
         content,
         msg_type: "file",
+        reply_in_thread: replyInThread,
       },
     });
 
@@ -403,6 +531,71 @@ export async function sendFileFeishu(params: {
   };
 }
 
+/**
+ * Send a voice message using the file_key of an uploaded opus file
+ */
+export async function sendAudioFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  to: string;
+  fileKey: string;
+  replyToMessageId?: string;
+  replyInThread?: boolean;
+}): Promise<SendMediaResult> {
+  const { cfg, accountId, to, fileKey, replyToMessageId, replyInThread } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
+  }
+
+  const client = createFeishuClient(account.config, account.accountId);
+  const receiveId = normalizeFeishuTarget(to);
+  if (!receiveId) {
+    throw new Error(`Invalid Feishu target: ${to}`);
+  }
+
+  const receiveIdType = resolveReceiveIdType(receiveId);
+  const content = JSON.stringify({ file_key: fileKey });
+
+  if (replyToMessageId) {
+    const response = await client.im.message.reply({
+      path: { message_id: replyToMessageId },
+      data: {
+        content,
+        msg_type: "audio",
+        reply_in_thread: replyInThread,
+      },
+    });
+
+    if (response.code !== 0) {
+      throw new Error(`Feishu audio reply failed: ${response.msg || `code ${response.code}`}`);
+    }
+
+    return {
+      messageId: response.data?.message_id ?? "unknown",
+      chatId: receiveId,
+    };
+  }
+
+  const response = await client.im.message.create({
+    params: { receive_id_type: receiveIdType },
+    data: {
+      receive_id: receiveId,
+      content,
+      msg_type: "audio",
+    },
+  });
+
+  if (response.code !== 0) {
+    throw new Error(`Feishu audio send failed: ${response.msg || `code ${response.code}`}`);
+  }
+
+  return {
+    messageId: response.data?.message_id ?? "unknown",
+    chatId: receiveId,
+  };
+}
+
 /**
  * Send a video/audio message using a file_key
  * 视频消息需要使用 msg_type: "media"，而不是 "file"
@@ -410,18 +603,20 @@ export async function sendFileFeishu(params: {
  */
 export async function sendVideoFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   fileKey: string;
   imageKey?: string; // 可选的视频封面图
   replyToMessageId?: string;
+  replyInThread?: boolean;
 }): Promise<SendMediaResult> {
-  const { cfg, to, fileKey, imageKey, replyToMessageId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, to, fileKey, imageKey, replyToMessageId, replyInThread } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
   const receiveId = normalizeFeishuTarget(to);
   if (!receiveId) {
     throw new Error(`Invalid Feishu target: ${to}`);
@@ -441,6 +636,7 @@ export async function sendVideoFeishu(params: {
       data: {
         content,
         msg_type: "media",
+        reply_in_thread: replyInThread,
       },
     });
 
@@ -473,6 +669,72 @@ export async function sendVideoFeishu(params: {
   };
 }
 
+/**
+ * Send a sticker using its file_key. Stickers can't be uploaded through the API, so
+ * the key must come from a sticker message the bot has received.
+ */
+export async function sendStickerFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  to: string;
+  fileKey: string;
+  replyToMessageId?: string;
+  replyInThread?: boolean;
+}): Promise<SendMediaResult> {
+  const { cfg, accountId, to, fileKey, replyToMessageId, replyInThread } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
+  }
+
+  const client = createFeishuClient(account.config, account.accountId);
+  const receiveId = normalizeFeishuTarget(to);
+  if (!receiveId) {
+    throw new Error(`Invalid Feishu target: ${to}`);
+  }
+
+  const receiveIdType = resolveReceiveIdType(receiveId);
+  const content = JSON.stringify({ file_key: fileKey });
+
+  if (replyToMessageId) {
+    const response = await client.im.message.reply({
+      path: { message_id: replyToMessageId },
+      data: {
+        content,
+        msg_type: "sticker",
+        reply_in_thread: replyInThread,
+      },
+    });
+
+    if (response.code !== 0) {
+      throw new Error(`Feishu sticker reply failed: ${response.msg || `code ${response.code}`}`);
+    }
+
+    return {
+      messageId: response.data?.message_id ?? "unknown",
+      chatId: receiveId,
+    };
+  }
+
+  const response = await client.im.message.create({
+    params: { receive_id_type: receiveIdType },
+    data: {
+      receive_id: receiveId,
+      content,
+      msg_type: "sticker",
+    },
+  });
+
+  if (response.code !== 0) {
+    throw new Error(`Feishu sticker send failed: ${response.msg || `code ${response.code}`}`);
+  }
+
+  return {
+    messageId: response.data?.message_id ?? "unknown",
+    chatId: receiveId,
+  };
+}
+
 /**
  * Helper to detect file type from extension
  */
@@ -504,6 +766,64 @@ export function detectFileType(
   }
 }
 
+export type SniffedMediaType = {
+  kind: "image" | "video" | "audio" | "file";
+  /** Canonical extension for the detected format */
+  ext: string;
+};
+
+/**
+ * Detect the media type from a file's first bytes, so misnamed or extensionless files
+ * are still sent the right way. Returns undefined for unrecognized content.
+ */
+export function sniffMediaType(header: Buffer): SniffedMediaType | undefined {
+  const ascii = (start: number, end: number) => header.toString("latin1", start, end);
+  const startsWith = (...bytes: number[]) => bytes.every((byte, i) => header[i] === byte);
+
+  if (startsWith(0xff, 0xd8, 0xff)) return { kind: "image", ext: ".jpg" };
+  if (startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) return { kind: "image", ext: ".png" };
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return { kind: "image", ext: ".gif" };
+  if (ascii(0, 4) === "RIFF") {
+    const format = ascii(8, 12);
+    if (format === "WEBP") return { kind: "image", ext: ".webp" };
+    if (format === "WAVE") return { kind: "audio", ext: ".wav" };
+    if (format === "AVI ") return { kind: "video", ext: ".avi" };
+  }
+  if (startsWith(0x49, 0x49, 0x2a, 0x00) || startsWith(0x4d, 0x4d, 0x00, 0x2a)) {
+    return { kind: "image", ext: ".tiff" };
+  }
+  if (startsWith(0x00, 0x00, 0x01, 0x00)) return { kind: "image", ext: ".ico" };
+  if (ascii(0, 2) === "BM" && header.length >= 14 && header.readUInt32LE(10) < 2048) {
+    return { kind: "image", ext: ".bmp" };
+  }
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (brand === "M4A " || brand === "M4B ") return { kind: "audio", ext: ".m4a" };
+    if (brand === "qt  ") return { kind: "video", ext: ".mov" };
+    // HEIF/AVIF images share the container but Feishu can't display them
+    if (["heic", "heix", "mif1", "msf1", "avif"].includes(brand)) return { kind: "file", ext: `.${brand}` };
+    return { kind: "video", ext: ".mp4" };
+  }
+  if (startsWith(0x1a, 0x45, 0xdf, 0xa3)) {
+    return { kind: "video", ext: header.includes("webm", 0, "latin1") ? ".webm" : ".mkv" };
+  }
+  if (ascii(0, 4) === "OggS") return { kind: "audio", ext: ".ogg" };
+  if (ascii(0, 4) === "fLaC") return { kind: "audio", ext: ".flac" };
+  if (ascii(0, 3) === "ID3") return { kind: "audio", ext: ".mp3" };
+  if (header[0] === 0xff && (header[1] & 0xf6) === 0xf0) return { kind: "audio", ext: ".aac" };
+  if (header[0] === 0xff && (header[1] & 0xe0) === 0xe0) return { kind: "audio", ext: ".mp3" };
+  if (ascii(0, 5) === "%PDF-") return { kind: "file", ext: ".pdf" };
+  return undefined;
+}
+
+function detectMediaTypeFromExtension(fileName: string): SniffedMediaType["kind"] {
+  const ext = path.extname(fileName).toLowerCase();
+  if ([".jpg", ".jpeg", ".png", ".gif", ".webp", ".bmp", ".ico", ".tiff"].includes(ext)) return "image";
+  if ([".mp4", ".mov", ".avi", ".mkv", ".webm"].includes(ext)) return "video";
+  if ([".opus", ".ogg", ".mp3", ".wav", ".m4a", ".aac", ".flac"].includes(ext)) return "audio";
+  return "file";
+}
+
 /**
  * Check if a string is a local file path (not a URL)
  */
@@ -522,72 +842,390 @@ function isLocalPath(urlOrPath: string): boolean {
 }
 
 /**
- * Upload and send media (image or file) from URL, local path, or buffer
+ * Upload audio and send it as a voice message. Anything that isn't Ogg/Opus already is
+ * transcoded with ffmpeg (`channels.feishu.ffmpegPath`, default `ffmpeg` on PATH).
+ */
+export async function sendAudioBufferFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  to: string;
+  audio: Buffer;
+  fileName?: string;
+  replyToMessageId?: string;
+  replyInThread?: boolean;
+}): Promise<SendMediaResult> {
+  const { cfg, accountId, to, fileName, replyToMessageId, replyInThread } = params;
+  let audio = params.audio;
+  let durationMs = getOggOpusDurationMs(audio);
+  if (durationMs === undefined) {
+    const ffmpegPath = resolveFeishuAccount({ cfg, accountId }).config.ffmpegPath;
+    audio = await transcodeToOpus({ audio, fileName, ffmpegPath });
+    durationMs = getOggOpusDurationMs(audio);
+  }
+
+  const baseName = fileName ? path.basename(fileName, path.extname(fileName)) : "voice";
+  const { fileKey } = await uploadFileFeishu({
+    cfg,
+    accountId,
+    file: audio,
+    fileName: `${baseName}.opus`,
+    fileType: "opus",
+    duration: durationMs,
+  });
+  return sendAudioFeishu({ cfg, accountId, to, fileKey, replyToMessageId, replyInThread });
+}
+
+/**
+ * Media to upload: a local file, streamed from disk, or a caller-provided buffer.
+ */
+type MediaSource = {
+  filePath?: string;
+  buffer?: Buffer;
+  name: string;
+  size: number;
+  /** Set instead of a file when the URL is a web page */
+  page?: { url: string; html: string };
+  /** Removes the temp copy of a downloaded URL */
+  cleanup: () => Promise<void>;
+};
+
+function resolveMediaMaxBytes(cfg: ClawdbotConfig, accountId?: string): number {
+  const mediaMaxMb = resolveFeishuAccount({ cfg, accountId }).config.mediaMaxMb;
+  return mediaMaxMb ? mediaMaxMb * 1024 * 1024 : DEFAULT_MEDIA_MAX_BYTES;
+}
+
+// Enough HTML to contain the page's <head>
+const MAX_PREVIEW_HTML_BYTES = 512 * 1024;
+
+async function readPageHead(body: ReadableStream<Uint8Array>): Promise<string> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  const reader = body.getReader();
+  try {
+    while (total < MAX_PREVIEW_HTML_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(Buffer.from(value));
+      total += value.length;
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Resolve a local path (`/`, `~`, `file://`) in place, or stream a remote URL to a temp
+ * file; either is refused once it exceeds `maxBytes`. Nothing is read into memory
+ * except the head of a web page, which is kept for a link preview.
+ */
+async function openMediaSource(
+  mediaUrl: string,
+  fileName: string | undefined,
+  maxBytes: number,
+): Promise<MediaSource> {
+  if (isLocalPath(mediaUrl)) {
+    const filePath = mediaUrl.startsWith("~")
+      ? mediaUrl.replace("~", process.env.HOME ?? "")
+      : mediaUrl.replace("file://", "");
+
+    const stat = await fs.promises.stat(filePath).catch(() => undefined);
+    if (!stat?.isFile()) {
+      throw new Error(`Local file not found: ${filePath}`);
+    }
+    if (stat.size > maxBytes) {
+      throw new Error(
+        `Local file ${filePath} is ${formatMb(stat.size)}MB, larger than the ${formatMb(maxBytes)}MB limit`,
+      );
+    }
+    return {
+      filePath,
+      name: fileName ?? path.basename(filePath),
+      size: stat.size,
+      cleanup: async () => {},
+    };
+  }
+
+  const response = await fetch(mediaUrl);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to fetch media from URL: ${response.status}`);
+  }
+  const contentType = response.headers.get("content-type") ?? "";
+  if (/^(text\/html|application\/xhtml\+xml)/i.test(contentType)) {
+    return {
+      name: fileName ?? "page",
+      size: 0,
+      page: { url: response.url || mediaUrl, html: await readPageHead(response.body) },
+      cleanup: async () => {},
+    };
+  }
+
+  const contentLength = Number(response.headers.get("content-length"));
+  if (contentLength > maxBytes) {
+    await response.body.cancel().catch(() => {});
+    throw new Error(
+      `Failed to fetch media from URL: ${formatMb(contentLength)}MB is larger than the ${formatMb(maxBytes)}MB limit`,
+    );
+  }
+
+  const name = fileName ?? (path.basename(new URL(mediaUrl).pathname) || "file");
+  const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "feishu-media-"));
+  const cleanup = () => fs.promises.rm(tmpDir, { recursive: true, force: true });
+  const filePath = path.join(tmpDir, path.basename(name));
+  try {
+    await pipeline(
+      Readable.fromWeb(response.body as any),
+      (source: AsyncIterable<Buffer>) => limitBytes(source, maxBytes, "Media download"),
+      fs.createWriteStream(filePath),
+    );
+    return { filePath, name, size: (await fs.promises.stat(filePath)).size, cleanup };
+  } catch (err) {
+    await cleanup();
+    throw err;
+  }
+}
+
+/**
+ * Upload an image from a local path or URL, e.g. one referenced in Markdown.
+ */
+export async function uploadImageFromUrlFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  url: string;
+  /** Refuse local paths, for URLs taken from untrusted content such as a web page */
+  remoteOnly?: boolean;
+}): Promise<UploadImageResult> {
+  const { cfg, accountId, url, remoteOnly } = params;
+  if (remoteOnly && !/^https?:\/\//i.test(url)) {
+    throw new Error(`Feishu image upload failed: ${url} is not an http(s) URL`);
+  }
+  const source = await openMediaSource(url, undefined, resolveMediaMaxBytes(cfg, accountId));
+  try {
+    if (!source.filePath) {
+      throw new Error(`Feishu image upload failed: ${url} is a web page, not an image`);
+    }
+    return await uploadImageFeishu({ cfg, accountId, image: source.filePath });
+  } finally {
+    await source.cleanup();
+  }
+}
+
+/**
+ * Files over the IM upload limit can't be sent as file messages; upload them to the
+ * bot's Drive in chunks, let the recipient view them and send the link instead.
+ */
+async function sendLargeFileFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  to: string;
+  source: MediaSource;
+  replyToMessageId?: string;
+  replyInThread?: boolean;
+}): Promise<SendMediaResult> {
+  const { cfg, accountId, to, source, replyToMessageId, replyInThread } = params;
+  const { fileToken, url } = await uploadDriveFileChunkedFeishu({
+    cfg,
+    accountId,
+    file: source.filePath ?? source.buffer!,
+    fileName: source.name,
+  });
+  if (!url) {
+    throw new Error(`Feishu drive upload failed: no link returned for ${fileToken}`);
+  }
+
+  let warning: string | undefined;
+  const receiveId = normalizeFeishuTarget(to);
+  if (receiveId) {
+    const account = resolveFeishuAccount({ cfg, accountId });
+    const client = createFeishuClient(account.config, account.accountId);
+    const memberType = resolveReceiveIdType(receiveId) === "chat_id" ? "openchat" : "openid";
+    // Without this only the bot can open the file
+    try {
+      const response = await client.drive.permissionMember.create({
+        path: { token: fileToken },
+        params: { type: "file", need_notification: false },
+        data: { member_type: memberType, member_id: receiveId, perm: "view" },
+      });
+      if (response.code !== 0) {
+        throw new Error(response.msg || `code ${response.code}`);
+      }
+    } catch (err) {
+      warning = `Feishu drive share failed, ${receiveId} may not be able to open ${source.name}: ${String(err)}`;
+      console.error(`[feishu] ${warning}`);
+    }
+  }
+
+  const result = await sendMessageFeishu({
+    cfg,
+    accountId,
+    to,
+    text: `📎 [${source.name}](${url})（${formatMb(source.size)}MB，超过 ${formatMb(MAX_IM_FILE_BYTES)}MB，已上传至云空间）`,
+    replyToMessageId,
+    replyInThread,
+  });
+  return warning ? { ...result, warning } : result;
+}
+
+async function readMediaHeader(source: MediaSource): Promise<Buffer> {
+  if (source.buffer) return source.buffer.subarray(0, 64);
+  const handle = await fs.promises.open(source.filePath!, "r");
+  try {
+    const header = Buffer.alloc(64);
+    const { bytesRead } = await handle.read(header, 0, header.length, 0);
+    return header.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Upload a frame of the video as its cover; needs ffmpeg (`channels.feishu.ffmpegPath`). */
+async function uploadVideoCoverFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  source: MediaSource;
+}): Promise<string> {
+  const { cfg, accountId, source } = params;
+  const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "feishu-video-"));
+  try {
+    let videoPath = source.filePath;
+    if (!videoPath) {
+      videoPath = path.join(tmpDir, `input${path.extname(source.name) || ".mp4"}`);
+      await fs.promises.writeFile(videoPath, source.buffer!);
+    }
+    const coverPath = path.join(tmpDir, "cover.jpg");
+    await extractVideoFrame({
+      videoPath,
+      outputPath: coverPath,
+      ffmpegPath: resolveFeishuAccount({ cfg, accountId }).config.ffmpegPath,
+    });
+    return (await uploadImageFeishu({ cfg, accountId, image: coverPath })).imageKey;
+  } finally {
+    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+  }
+}
+
+/** Send a web page as a card with its title, summary and preview image. */
+async function sendLinkPreviewFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  to: string;
+  page: { url: string; html: string };
+  replyToMessageId?: string;
+  replyInThread?: boolean;
+}): Promise<SendMediaResult> {
+  const { cfg, accountId, to, page, replyToMessageId, replyInThread } = params;
+  const preview = parseLinkPreview(page.html, page.url);
+  const imageKey = preview.imageUrl
+    ? await uploadImageFromUrlFeishu({ cfg, accountId, url: preview.imageUrl, remoteOnly: true })
+        .then((result) => result.imageKey)
+        .catch(() => undefined)
+    : undefined;
+  return sendCardFeishu({
+    cfg,
+    accountId,
+    to,
+    card: buildLinkPreviewCard(preview, imageKey),
+    replyToMessageId,
+    replyInThread,
+  });
+}
+
+/**
+ * Upload and send media from URL, local path, or buffer. The type is sniffed from the
+ * content (falling back to the extension): images, voice messages, videos with a
+ * cover frame, or files. Files over 30MB are sent as a Drive link, web pages as a
+ * link preview card.
  */
 export async function sendMediaFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   mediaUrl?: string;
   mediaBuffer?: Buffer;
   fileName?: string;
   replyToMessageId?: string;
+  replyInThread?: boolean;
+  /** Send audio as a voice message, transcoded to Opus; by default only `.opus` files are */
+  asVoice?: boolean;
 }): Promise<SendMediaResult> {
-  const { cfg, to, mediaUrl, mediaBuffer, fileName, replyToMessageId } = params;
+  const { cfg, accountId, to, mediaUrl, mediaBuffer, fileName, replyToMessageId, replyInThread } = params;
 
-  let buffer: Buffer;
-  let name: string;
+  if (!mediaBuffer && mediaUrl?.startsWith(STICKER_URL_PREFIX)) {
+    const fileKey = mediaUrl.slice(STICKER_URL_PREFIX.length).trim();
+    return sendStickerFeishu({ cfg, accountId, to, fileKey, replyToMessageId, replyInThread });
+  }
 
+  let source: MediaSource;
   if (mediaBuffer) {
-    buffer = mediaBuffer;
-    name = fileName ?? "file";
+    source = { buffer: mediaBuffer, name: fileName ?? "file", size: mediaBuffer.length, cleanup: async () => {} };
   } else if (mediaUrl) {
-    if (isLocalPath(mediaUrl)) {
-      // Local file path - read directly
-      const filePath = mediaUrl.startsWith("~")
-        ? mediaUrl.replace("~", process.env.HOME ?? "")
-        : mediaUrl.replace("file://", "");
-
-      if (!fs.existsSync(filePath)) {
-        throw new Error(`Local file not found: ${filePath}`);
-      }
-      buffer = fs.readFileSync(filePath);
-      name = fileName ?? path.basename(filePath);
-    } else {
-      // Remote URL - fetch
-      const response = await fetch(mediaUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch media from URL: ${response.status}`);
-      }
-      buffer = Buffer.from(await response.arrayBuffer());
-      name = fileName ?? (path.basename(new URL(mediaUrl).pathname) || "file");
-    }
+    source = await openMediaSource(mediaUrl, fileName, resolveMediaMaxBytes(cfg, accountId));
   } else {
     throw new Error("Either mediaUrl or mediaBuffer must be provided");
   }
 
-  const ext = path.extname(name).toLowerCase();
-  const isImage = [".jpg", ".jpeg", ".png", ".gif", ".webp", ".bmp", ".ico", ".tiff"].includes(ext);
-  const isVideo = [".mp4", ".mov", ".avi", ".mkv", ".webm"].includes(ext);
+  try {
+    if (source.page) {
+      return await sendLinkPreviewFeishu({ cfg, accountId, to, page: source.page, replyToMessageId, replyInThread });
+    }
 
-  if (isImage) {
-    const { imageKey } = await uploadImageFeishu({ cfg, image: buffer });
-    return sendImageFeishu({ cfg, to, imageKey, replyToMessageId });
-  } else if (isVideo) {
-    const { fileKey } = await uploadFileFeishu({
-      cfg,
-      file: buffer,
-      fileName: name,
-      fileType: "mp4",
-    });
-    return sendVideoFeishu({ cfg, to, fileKey, replyToMessageId });
-  } else {
-    const fileType = detectFileType(name);
-    const { fileKey } = await uploadFileFeishu({
-      cfg,
-      file: buffer,
-      fileName: name,
-      fileType,
-    });
-    return sendFileFeishu({ cfg, to, fileKey, replyToMessageId });
+    const sniffed = sniffMediaType(await readMediaHeader(source));
+    const kind = sniffed?.kind ?? detectMediaTypeFromExtension(source.name);
+    // Give extensionless files a real one so Feishu shows the right icon
+    const name =
+      sniffed && !path.extname(source.name) ? `${source.name}${sniffed.ext}` : source.name;
+    const input = source.filePath ?? source.buffer!;
+
+    const asVoice = params.asVoice ?? path.extname(name).toLowerCase() === ".opus";
+    if (kind === "audio" && asVoice && source.size <= MAX_IM_FILE_BYTES) {
+      try {
+        return await sendAudioBufferFeishu({
+          cfg,
+          accountId,
+          to,
+          audio: source.buffer ?? (await fs.promises.readFile(source.filePath!)),
+          fileName: name,
+          replyToMessageId,
+          replyInThread,
+        });
+      } catch (err) {
+        // E.g. no ffmpeg to convert it: the audio still goes out, as a file
+        console.error(`[feishu] sending ${name} as voice failed, sending it as a file:`, err);
+      }
+    }
+
+    // Feishu plays MP4 (and QuickTime) only; other containers are sent as files
+    const isPlayableVideo =
+      kind === "video" && (sniffed ? [".mp4", ".mov"].includes(sniffed.ext) : detectFileType(name) === "mp4");
+
+    if (kind === "image") {
+      const { imageKey } = await uploadImageFeishu({ cfg, accountId, image: input });
+      return await sendImageFeishu({ cfg, accountId, to, imageKey, replyToMessageId, replyInThread });
+    } else if (source.size > MAX_IM_FILE_BYTES) {
+      return await sendLargeFileFeishu({ cfg, accountId, to, source, replyToMessageId, replyInThread });
+    } else if (isPlayableVideo) {
+      const { fileKey } = await uploadFileFeishu({
+        cfg,
+        accountId,
+        file: input,
+        fileName: name,
+        fileType: "mp4",
+      });
+      // Without ffmpeg the video still goes out, just with Feishu's placeholder cover
+      const imageKey = await uploadVideoCoverFeishu({ cfg, accountId, source }).catch(() => undefined);
+      return await sendVideoFeishu({ cfg, accountId, to, fileKey, imageKey, replyToMessageId, replyInThread });
+    } else {
+      const fileType = kind === "video" ? "stream" : detectFileType(name);
+      const { fileKey } = await uploadFileFeishu({
+        cfg,
+        accountId,
+        file: input,
+        fileName: name,
+        fileType,
+      });
+      return await sendFileFeishu({ cfg, accountId, to, fileKey, replyToMessageId, replyInThread });
+    }
+  } finally {
+    await source.cleanup();
   }
 }
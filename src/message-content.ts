@@ -0,0 +1,274 @@
+import type { ClawdbotConfig } from "openclaw/plugin-sdk";
+import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccount } from "./accounts.js";
+import { parseFeishuPostContent } from "./post.js";
+
+// Turns any inbound message body into text the agent can read. Used by the live
+// inbound path (including quoted messages) and by chat history fetching.
+
+/** Message types whose text needs API lookups or card parsing */
+export const EXTRACTED_MESSAGE_TYPES = new Set(["interactive", "share_chat", "share_user", "merge_forward"]);
+
+const MEDIA_PLACEHOLDERS: Record<string, string> = {
+  image: "[图片]",
+  file: "[文件]",
+  audio: "[语音]",
+  video: "[视频]",
+  media: "[视频]",
+  sticker: "[表情]",
+};
+
+// `sticker:<file_key>` sent as media re-sends a sticker the bot has received
+export const STICKER_URL_PREFIX = "sticker:";
+
+/** `sticker:<file_key>` for a sticker message's content, so the agent can send it back */
+export function stickerReference(content: string): string | undefined {
+  try {
+    const fileKey = JSON.parse(content)?.file_key;
+    return fileKey ? `${STICKER_URL_PREFIX}${fileKey}` : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Nested merged forwards are followed this deep
+const MAX_FORWARD_DEPTH = 2;
+const MAX_FORWARD_ITEMS = 50;
+
+const NAME_TTL_MS = 10 * 60 * 1000;
+const nameCache = new Map<string, { name: string; expireAt: number }>();
+
+async function cachedName(key: string, lookup: () => Promise<string | undefined>) {
+  const cached = nameCache.get(key);
+  if (cached && cached.expireAt > Date.now()) return cached.name;
+  try {
+    const name = await lookup();
+    if (name) nameCache.set(key, { name, expireAt: Date.now() + NAME_TTL_MS });
+    return name;
+  } catch {
+    return undefined;
+  }
+}
+
+function resolveClient(cfg: ClawdbotConfig, accountId?: string) {
+  const account = resolveFeishuAccount({ cfg, accountId });
+  return { client: createFeishuClient(account.config, account.accountId), accountId: account.accountId };
+}
+
+export async function resolveUserName(cfg: ClawdbotConfig, accountId: string | undefined, openId: string) {
+  const { client, accountId: id } = resolveClient(cfg, accountId);
+  return cachedName(`${id}:user:${openId}`, async () => {
+    const response = (await client.contact.user.get({
+      path: { user_id: openId },
+      params: { user_id_type: "open_id" },
+    })) as { code?: number; data?: { user?: { name?: string } } };
+    return response.code === 0 ? response.data?.user?.name : undefined;
+  });
+}
+
+async function resolveChatName(cfg: ClawdbotConfig, accountId: string | undefined, chatId: string) {
+  const { client, accountId: id } = resolveClient(cfg, accountId);
+  return cachedName(`${id}:chat:${chatId}`, async () => {
+    const response = (await client.im.chat.get({
+      path: { chat_id: chatId },
+    })) as { code?: number; data?: { name?: string } };
+    return response.code === 0 ? response.data?.name : undefined;
+  });
+}
+
+const CARD_TEXT_TAGS = new Set(["plain_text", "lark_md", "markdown", "text", "md"]);
+
+type SimplifiedCardElement = {
+  tag?: string;
+  text?: string;
+  href?: string;
+  user_name?: string;
+};
+
+// Received cards arrive simplified: `{ title, elements: [[inline elements], ...] }`
+function extractSimplifiedCardRow(row: SimplifiedCardElement[]) {
+  return row
+    .map((item) => {
+      switch (item.tag) {
+        case "a":
+          return item.href ? `[${item.text ?? item.href}](${item.href})` : item.text;
+        case "at":
+          return item.user_name ? `@${item.user_name}` : undefined;
+        case "button":
+          return item.text ? `[${item.text}]` : undefined;
+        case "img":
+          return "[图片]";
+        default:
+          return item.text;
+      }
+    })
+    .filter(Boolean)
+    .join("");
+}
+
+/**
+ * Pull readable text out of card JSON: the simplified form Feishu delivers for
+ * received cards, or full card JSON (schema 1.0/2.0) as sent.
+ */
+export function extractCardText(card: unknown): string {
+  const root = card as Record<string, any> | null;
+  if (!root || typeof root !== "object") return "";
+  const lines: string[] = [];
+
+  const title =
+    typeof root.title === "string"
+      ? root.title
+      : (root.header?.title?.content ?? root.header?.title?.text);
+  if (typeof title === "string" && title.trim()) lines.push(`**${title.trim()}**`);
+
+  if (Array.isArray(root.elements) && root.elements.every((row: unknown) => Array.isArray(row))) {
+    for (const row of root.elements as SimplifiedCardElement[][]) {
+      const line = extractSimplifiedCardRow(row);
+      if (line.trim()) lines.push(line);
+    }
+    return lines.join("\n");
+  }
+
+  const walk = (node: unknown) => {
+    if (!node || typeof node !== "object") return;
+    if (Array.isArray(node)) {
+      for (const item of node) walk(item);
+      return;
+    }
+    const obj = node as Record<string, any>;
+    if (typeof obj.tag === "string" && CARD_TEXT_TAGS.has(obj.tag)) {
+      const text = obj.content ?? obj.text;
+      if (typeof text === "string" && text.trim()) lines.push(text.trim());
+      return;
+    }
+    if (obj.tag === "a" && typeof obj.text === "string") {
+      lines.push(obj.href ? `[${obj.text}](${obj.href})` : obj.text);
+      return;
+    }
+    for (const [key, value] of Object.entries(obj)) {
+      // Callback payloads and styling carry no user-visible text
+      if (key === "value" || key === "behaviors" || key === "config" || key === "style") continue;
+      walk(value);
+    }
+  };
+  walk(root.body ?? root.elements ?? root.i18n_elements);
+
+  // Drop repeats (e.g. a title also present in the body)
+  return [...new Set(lines)].join("\n");
+}
+
+type MergeForwardItem = {
+  message_id?: string;
+  msg_type?: string;
+  upper_message_id?: string;
+  body?: { content?: string };
+  sender?: { id?: string; id_type?: string; sender_type?: string };
+  create_time?: string;
+};
+
+async function extractMergeForward(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  messageId: string;
+  depth: number;
+}): Promise<string> {
+  const { cfg, accountId, messageId, depth } = params;
+  if (depth > MAX_FORWARD_DEPTH) return "[合并转发消息]";
+
+  const { client } = resolveClient(cfg, accountId);
+  const response = (await client.im.message.get({
+    path: { message_id: messageId },
+  })) as { code?: number; msg?: string; data?: { items?: MergeForwardItem[] } };
+  if (response.code !== 0) {
+    throw new Error(`Feishu get merged messages failed: ${response.msg || `code ${response.code}`}`);
+  }
+
+  // The response holds the merge_forward message itself plus its direct and nested children
+  const children = (response.data?.items ?? [])
+    .filter((item) => item.upper_message_id === messageId)
+    .slice(0, MAX_FORWARD_ITEMS);
+
+  const lines = ["[合并转发消息]"];
+  for (const item of children) {
+    const senderId = item.sender?.id;
+    const sender =
+      item.sender?.sender_type === "app"
+        ? "[Bot]"
+        : senderId && item.sender?.id_type === "open_id"
+          ? ((await resolveUserName(cfg, accountId, senderId)) ?? senderId)
+          : (senderId ?? "unknown");
+    const text = await extractFeishuMessageText({
+      cfg,
+      accountId,
+      messageId: item.message_id ?? "",
+      messageType: item.msg_type ?? "text",
+      content: item.body?.content ?? "",
+      depth: depth + 1,
+    });
+    // Indent so nested conversations stay readable
+    lines.push(`${sender}: ${text}`.replace(/\n/g, "\n  "));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Text for a message of any type. Never throws: lookups that fail fall back to
+ * ids or placeholders.
+ */
+export async function extractFeishuMessageText(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  messageId: string;
+  messageType: string;
+  /** Raw `body.content` / `message.content` JSON string */
+  content: string;
+  depth?: number;
+  /** false: no API calls, shared chats/users keep their ids and merged forwards a placeholder */
+  lookups?: boolean;
+}): Promise<string> {
+  const { cfg, accountId, messageId, messageType, content, depth = 0, lookups = true } = params;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    parsed = undefined;
+  }
+
+  try {
+    switch (messageType) {
+      case "text":
+        return parsed?.text ?? content;
+      case "post":
+        return parseFeishuPostContent(content).markdown;
+      case "interactive": {
+        const text = parsed ? extractCardText(parsed) : "";
+        return text ? `[卡片]\n${text}` : "[卡片消息]";
+      }
+      case "share_chat": {
+        const chatId = parsed?.chat_id;
+        if (!chatId) return "[分享群聊]";
+        const name = lookups ? await resolveChatName(cfg, accountId, chatId) : undefined;
+        return `[分享群聊: ${name ? `${name} (${chatId})` : chatId}]`;
+      }
+      case "share_user": {
+        const userId = parsed?.user_id;
+        if (!userId) return "[分享用户]";
+        const name = lookups ? await resolveUserName(cfg, accountId, userId) : undefined;
+        return `[分享用户: ${name ? `${name} (${userId})` : userId}]`;
+      }
+      case "merge_forward":
+        return messageId && lookups
+          ? await extractMergeForward({ cfg, accountId, messageId, depth })
+          : "[合并转发消息]";
+      case "sticker": {
+        const reference = stickerReference(content);
+        return reference ? `${MEDIA_PLACEHOLDERS.sticker} ${reference}` : MEDIA_PLACEHOLDERS.sticker;
+      }
+      default:
+        return MEDIA_PLACEHOLDERS[messageType] ?? content;
+    }
+  } catch {
+    return messageType === "merge_forward" ? "[合并转发消息]" : content;
+  }
+}
@@ -1,11 +1,19 @@
 import { execSync, exec, spawn } from "child_process";
+import http from "http";
 import * as Lark from "@larksuiteoapi/node-sdk";
 import type { ClawdbotConfig, RuntimeEnv, HistoryEntry } from "openclaw/plugin-sdk";
 import type { FeishuConfig } from "./types.js";
 import { createFeishuWSClient, createEventDispatcher } from "./client.js";
-import { resolveFeishuCredentials } from "./accounts.js";
-import { handleFeishuMessage, type FeishuMessageEvent, type FeishuBotAddedEvent } from "./bot.js";
+import { resolveFeishuAccount } from "./accounts.js";
+import { handleFeishuMessage, type FeishuMessageEvent } from "./bot.js";
+import { handleFeishuCardAction, type FeishuCardActionEvent } from "./card-action.js";
+import {
+  handleFeishuBotAdded,
+  handleFeishuBotRemoved,
+  type FeishuBotMembershipEvent,
+} from "./chat-lifecycle.js";
 import { probeFeishu } from "./probe.js";
+import { getFeishuChatHistories } from "./group-history.js";
 
 export type MonitorFeishuOpts = {
   config?: ClawdbotConfig;
@@ -14,12 +22,17 @@ export type MonitorFeishuOpts = {
   accountId?: string;
 };
 
-let currentWsClient: Lark.WSClient | null = null;
-let botOpenId: string | undefined;
+// Keyed by account id; each account runs its own connection.
+const wsClients = new Map<string, Lark.WSClient>();
+const httpServers = new Map<string, http.Server>();
+const botOpenIds = new Map<string, string>();
 
-async function fetchBotOpenId(cfg: FeishuConfig): Promise<string | undefined> {
+async function fetchBotOpenId(
+  cfg: FeishuConfig,
+  accountId: string,
+): Promise<string | undefined> {
   try {
-    const result = await probeFeishu(cfg);
+    const result = await probeFeishu(cfg, accountId);
     return result.ok ? result.botOpenId : undefined;
   } catch {
     return undefined;
@@ -71,48 +84,49 @@ export async function monitorFeishuProvider(opts: MonitorFeishuOpts = {}): Promi
     throw new Error("Config is required for Feishu monitor");
   }
 
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  const creds = resolveFeishuCredentials(feishuCfg);
-  if (!creds) {
-    throw new Error("Feishu credentials not configured (appId, appSecret required)");
+  const account = resolveFeishuAccount({ cfg, accountId: opts.accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured (appId, appSecret required)`);
   }
+  const accountId = account.accountId;
+  const feishuCfg = account.config;
 
   const log = opts.runtime?.log ?? console.log;
-  const error = opts.runtime?.error ?? console.error;
 
-  if (feishuCfg) {
-    botOpenId = await fetchBotOpenId(feishuCfg);
-    log(`feishu: bot open_id resolved: ${botOpenId ?? "unknown"}`);
+  const botOpenId = await fetchBotOpenId(feishuCfg, accountId);
+  if (botOpenId) {
+    botOpenIds.set(accountId, botOpenId);
+  } else {
+    botOpenIds.delete(accountId);
   }
+  log(`feishu[${accountId}]: bot open_id resolved: ${botOpenId ?? "unknown"}`);
 
-  const connectionMode = feishuCfg?.connectionMode ?? "websocket";
+  const connectionMode = feishuCfg.connectionMode ?? "websocket";
+  const params = { cfg, accountId, feishuCfg, runtime: opts.runtime, abortSignal: opts.abortSignal };
 
-  if (connectionMode === "websocket") {
-    return monitorWebSocket({ cfg, feishuCfg: feishuCfg!, runtime: opts.runtime, abortSignal: opts.abortSignal });
+  if (connectionMode === "webhook") {
+    return monitorWebhook(params);
   }
 
-  log("feishu: webhook mode not implemented in monitor, use HTTP server directly");
+  return monitorWebSocket(params);
 }
 
-async function monitorWebSocket(params: {
+/**
+ * Register inbound event handlers on a dispatcher.
+ * Shared by the WebSocket and webhook transports so both route events identically.
+ */
+function registerEventHandlers(params: {
+  eventDispatcher: Lark.EventDispatcher;
   cfg: ClawdbotConfig;
+  accountId: string;
   feishuCfg: FeishuConfig;
   runtime?: RuntimeEnv;
-  abortSignal?: AbortSignal;
-}): Promise<void> {
-  const { cfg, feishuCfg, runtime, abortSignal } = params;
+  chatHistories: Map<string, HistoryEntry[]>;
+}): void {
+  const { eventDispatcher, cfg, accountId, feishuCfg, runtime, chatHistories } = params;
   const log = runtime?.log ?? console.log;
   const error = runtime?.error ?? console.error;
 
-  log("feishu: starting WebSocket connection...");
-
-  const wsClient = createFeishuWSClient(feishuCfg);
-  currentWsClient = wsClient;
-
-  const chatHistories = new Map<string, HistoryEntry[]>();
-
-  const eventDispatcher = createEventDispatcher(feishuCfg);
-
   // Generic handler for events mapped in config
   const handleGenericEvent = async (key: string, data: any) => {
     // Check config.channels.feishu.events[key]
@@ -127,34 +141,41 @@ async function monitorWebSocket(params: {
 
   eventDispatcher.register({
     "im.message.receive_v1": async (data) => {
-      try {
-        const event = data as unknown as FeishuMessageEvent;
-        await handleFeishuMessage({
-          cfg,
-          event,
-          botOpenId,
-          runtime,
-          chatHistories,
-        });
-      } catch (err) {
+      // Feishu expects the event to be acknowledged within 3 seconds (and redelivers
+      // otherwise), so agent dispatch must not hold the response open.
+      const event = data as unknown as FeishuMessageEvent;
+      void handleFeishuMessage({
+        cfg,
+        event,
+        accountId,
+        botOpenId: botOpenIds.get(accountId),
+        runtime,
+        chatHistories,
+      }).catch((err) => {
         error(`feishu: error handling message event: ${String(err)}`);
-      }
+      });
     },
     "im.message.message_read_v1": async () => {
       // Ignore read receipts
     },
     "im.chat.member.bot.added_v1": async (data) => {
-      try {
-        const event = data as unknown as FeishuBotAddedEvent;
-        log(`feishu: bot added to chat ${event.chat_id}`);
-      } catch (err) {
+      void handleFeishuBotAdded({
+        cfg,
+        event: data as unknown as FeishuBotMembershipEvent,
+        accountId,
+        runtime,
+      }).catch((err) => {
         error(`feishu: error handling bot added event: ${String(err)}`);
-      }
+      });
     },
     "im.chat.member.bot.deleted_v1": async (data) => {
       try {
-        const event = data as unknown as { chat_id: string };
-        log(`feishu: bot removed from chat ${event.chat_id}`);
+        handleFeishuBotRemoved({
+          event: data as unknown as FeishuBotMembershipEvent,
+          accountId,
+          runtime,
+          chatHistories,
+        });
       } catch (err) {
         error(`feishu: error handling bot removed event: ${String(err)}`);
       }
@@ -162,11 +183,17 @@ async function monitorWebSocket(params: {
     "card.action.trigger": async (data) => {
       try {
         log(`feishu: card action received`);
-        // Try generic handler first
+        // A script mapped in `events` still takes precedence
         const handled = await handleGenericEvent("card.action.trigger", data);
-        if (!handled) {
-          log("feishu: unhandled card action (configure 'card.action.trigger' in events)");
-        }
+        if (handled) return;
+
+        // The return value becomes the callback response (toast / updated card)
+        return await handleFeishuCardAction({
+          cfg,
+          event: data as unknown as FeishuCardActionEvent,
+          accountId,
+          runtime,
+        });
       } catch (err) {
         error(`feishu: error handling card action: ${String(err)}`);
       }
@@ -205,11 +232,32 @@ async function monitorWebSocket(params: {
       }
     },
   });
+}
+
+async function monitorWebSocket(params: {
+  cfg: ClawdbotConfig;
+  accountId: string;
+  feishuCfg: FeishuConfig;
+  runtime?: RuntimeEnv;
+  abortSignal?: AbortSignal;
+}): Promise<void> {
+  const { cfg, accountId, feishuCfg, runtime, abortSignal } = params;
+  const log = runtime?.log ?? console.log;
+
+  log("feishu: starting WebSocket connection...");
+
+  const wsClient = createFeishuWSClient(feishuCfg);
+  wsClients.set(accountId, wsClient);
+
+  const chatHistories = getFeishuChatHistories(accountId);
+
+  const eventDispatcher = createEventDispatcher(feishuCfg);
+  registerEventHandlers({ eventDispatcher, cfg, accountId, feishuCfg, runtime, chatHistories });
 
   return new Promise((resolve, reject) => {
     const cleanup = () => {
-      if (currentWsClient === wsClient) {
-        currentWsClient = null;
+      if (wsClients.get(accountId) === wsClient) {
+        wsClients.delete(accountId);
       }
     };
 
@@ -241,8 +289,91 @@ async function monitorWebSocket(params: {
   });
 }
 
-export function stopFeishuMonitor(): void {
-  if (currentWsClient) {
-    currentWsClient = null;
+const DEFAULT_WEBHOOK_PORT = 3000;
+
+async function monitorWebhook(params: {
+  cfg: ClawdbotConfig;
+  accountId: string;
+  feishuCfg: FeishuConfig;
+  runtime?: RuntimeEnv;
+  abortSignal?: AbortSignal;
+}): Promise<void> {
+  const { cfg, accountId, feishuCfg, runtime, abortSignal } = params;
+  const log = runtime?.log ?? console.log;
+  const error = runtime?.error ?? console.error;
+
+  const webhookPath = feishuCfg.webhookPath ?? "/feishu/events";
+  const webhookPort = feishuCfg.webhookPort ?? DEFAULT_WEBHOOK_PORT;
+
+  log(`feishu: starting webhook server on port ${webhookPort}, path ${webhookPath}...`);
+
+  const chatHistories = getFeishuChatHistories(accountId);
+
+  // The dispatcher verifies verificationToken and decrypts encryptKey payloads;
+  // autoChallenge answers the url_verification handshake.
+  const eventDispatcher = createEventDispatcher(feishuCfg);
+  registerEventHandlers({ eventDispatcher, cfg, accountId, feishuCfg, runtime, chatHistories });
+  const handleEvent = Lark.adaptDefault(webhookPath, eventDispatcher, { autoChallenge: true });
+
+  const server = http.createServer((req, res) => {
+    const pathname = (req.url ?? "").split("?")[0];
+    if (req.method !== "POST" || pathname !== webhookPath) {
+      res.statusCode = req.method !== "POST" && pathname === webhookPath ? 405 : 404;
+      res.end();
+      return;
+    }
+    // adaptDefault matches on the full request URL
+    req.url = webhookPath;
+    handleEvent(req, res).catch((err) => {
+      error(`feishu: webhook request failed: ${String(err)}`);
+      if (!res.headersSent) {
+        res.statusCode = 500;
+      }
+      res.end();
+    });
+  });
+  httpServers.set(accountId, server);
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      if (httpServers.get(accountId) === server) {
+        httpServers.delete(accountId);
+      }
+    };
+
+    const handleAbort = () => {
+      log("feishu: abort signal received, stopping webhook server");
+      cleanup();
+      server.close(() => resolve());
+      server.closeAllConnections?.();
+    };
+
+    if (abortSignal?.aborted) {
+      cleanup();
+      resolve();
+      return;
+    }
+
+    abortSignal?.addEventListener("abort", handleAbort, { once: true });
+
+    server.once("error", (err) => {
+      cleanup();
+      abortSignal?.removeEventListener("abort", handleAbort);
+      reject(err);
+    });
+
+    server.listen(webhookPort, () => {
+      log(`feishu: webhook server listening on port ${webhookPort}`);
+    });
+  });
+}
+
+export function stopFeishuMonitor(accountId?: string): void {
+  const ids = accountId ? [accountId] : [...new Set([...wsClients.keys(), ...httpServers.keys()])];
+  for (const id of ids) {
+    wsClients.delete(id);
+    httpServers.get(id)?.close();
+    httpServers.delete(id);
+    botOpenIds.delete(id);
   }
 }
@@ -1,9 +1,9 @@
 import type { ChannelOutboundAdapter } from "openclaw/plugin-sdk";
 import { getFeishuRuntime } from "./runtime.js";
-import { sendMessageFeishu, sendMarkdownCardFeishu } from "./send.js";
+import { sendMessageFeishu, sendMarkdownPostFeishu } from "./send.js";
 import { sendMediaFeishu } from "./media.js";
 import { createFeishuRenderer } from "./renderers/feishu-renderer.js";
-import type { FeishuConfig } from "./types.js";
+import { resolveFeishuAccount } from "./accounts.js";
 
 function shouldUseCard(text: string): boolean {
   if (/```[\s\S]*?```/.test(text)) return true;
@@ -16,14 +16,15 @@ export const feishuOutbound: ChannelOutboundAdapter = {
   chunker: (text, limit) => getFeishuRuntime().channel.text.chunkMarkdownText(text, limit),
   chunkerMode: "markdown",
   textChunkLimit: 4000,
-  sendText: async ({ cfg, to, text }) => {
-    const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-    const renderMode = feishuCfg?.renderMode ?? "auto";
+  sendText: async ({ cfg, to, text, accountId }) => {
+    const feishuCfg = resolveFeishuAccount({ cfg, accountId }).config;
+    const renderMode = feishuCfg.renderMode ?? "auto";
     const useCard =
       renderMode === "card" || (renderMode === "auto" && shouldUseCard(text ?? ""));
 
     const renderer = createFeishuRenderer({
       cfg,
+      accountId: accountId ?? undefined,
       agentId: "feishu-outbound",
       runtime: getFeishuRuntime(),
       chatId: to,
@@ -38,12 +39,18 @@ export const feishuOutbound: ChannelOutboundAdapter = {
       return { channel: "feishu", result };
     }
 
-    const result = await sendMessageFeishu({ cfg, to, text: text ?? "" });
+    if (renderMode === "post") {
+      const result = await sendMarkdownPostFeishu({ cfg, accountId: accountId ?? undefined, to, text: text ?? "" });
+      return { channel: "feishu", result };
+    }
+
+    const result = await sendMessageFeishu({ cfg, accountId: accountId ?? undefined, to, text: text ?? "" });
     return { channel: "feishu", result };
   },
-  sendMedia: async ({ cfg, to, text, mediaUrl }) => {
+  sendMedia: async ({ cfg, to, text, mediaUrl, accountId }) => {
     const renderer = createFeishuRenderer({
       cfg,
+      accountId: accountId ?? undefined,
       agentId: "feishu-outbound",
       runtime: getFeishuRuntime(),
       chatId: to,
@@ -51,16 +58,19 @@ export const feishuOutbound: ChannelOutboundAdapter = {
 
     // Send text first if provided
     if (text?.trim()) {
+      const renderMode = resolveFeishuAccount({ cfg, accountId }).config.renderMode ?? "auto";
       const useCard = shouldUseCard(text ?? "");
 
-      if (useCard) {
+      if (renderMode === "post") {
+        await sendMarkdownPostFeishu({ cfg, accountId: accountId ?? undefined, to, text });
+      } else if (useCard) {
         await renderer.deliver({
           chatId: to,
           text: text ?? "",
           replyToMessageId: undefined,
         });
       } else {
-        await sendMessageFeishu({ cfg, to, text });
+        await sendMessageFeishu({ cfg, accountId: accountId ?? undefined, to, text });
       }
     }
 
@@ -69,7 +79,7 @@ export const feishuOutbound: ChannelOutboundAdapter = {
       let lastError;
       for (let attempt = 1; attempt <= 3; attempt++) {
         try {
-          const result = await sendMediaFeishu({ cfg, to, mediaUrl });
+          const result = await sendMediaFeishu({ cfg, accountId: accountId ?? undefined, to, mediaUrl });
           return { channel: "feishu", ...result };
         } catch (err) {
           lastError = err;
@@ -84,12 +94,12 @@ export const feishuOutbound: ChannelOutboundAdapter = {
       // Fallback to URL link if upload fails after retries
       console.error(`[feishu] sendMediaFeishu failed after 3 attempts. Fallback to URL.`);
       const fallbackText = `[Media Upload Failed] Click to view: ${mediaUrl}`;
-      const result = await sendMessageFeishu({ cfg, to, text: fallbackText });
+      const result = await sendMessageFeishu({ cfg, accountId: accountId ?? undefined, to, text: fallbackText });
       return { channel: "feishu", ...result };
     }
 
     // No media URL, just return text result
-    const result = await sendMessageFeishu({ cfg, to, text: text ?? "" });
+    const result = await sendMessageFeishu({ cfg, accountId: accountId ?? undefined, to, text: text ?? "" });
     return { channel: "feishu", ...result };
   },
 };
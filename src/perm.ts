@@ -1,5 +1,6 @@
-import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
-import { createFeishuClient } from "./client.js";
+import type { OpenClawPluginApi, OpenClawPluginToolContext } from "openclaw/plugin-sdk";
+import { createFeishuToolClient } from "./client.js";
+import { listEnabledFeishuAccounts } from "./accounts.js";
 import type { FeishuConfig } from "./types.js";
 import type * as Lark from "@larksuiteoapi/node-sdk";
 import { FeishuPermSchema, type FeishuPermParams } from "./perm-schema.js";
@@ -112,22 +113,28 @@ async function removeMember(
 // ============ Tool Registration ============
 
 export function registerFeishuPermTools(api: OpenClawPluginApi) {
-  const feishuCfg = api.config?.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg?.appId || !feishuCfg?.appSecret) {
+  if (!api.config || listEnabledFeishuAccounts(api.config).length === 0) {
     api.logger.debug?.("feishu_perm: Feishu credentials not configured, skipping perm tools");
     return;
   }
+  const feishuCfg = api.config.channels?.feishu as FeishuConfig | undefined;
 
-  const toolsCfg = resolveToolsConfig(feishuCfg.tools);
+  const toolsCfg = resolveToolsConfig(feishuCfg?.tools);
   if (!toolsCfg.perm) {
     api.logger.debug?.("feishu_perm: perm tool disabled in config (default: false)");
     return;
   }
 
-  const getClient = () => createFeishuClient(feishuCfg);
+  // Resolved per run, so tools act as the account of the conversation that invoked them
+  const getClient = (ctx: OpenClawPluginToolContext) =>
+    createFeishuToolClient({
+      cfg: api.config,
+      messageChannel: ctx.messageChannel,
+      agentAccountId: ctx.agentAccountId,
+    });
 
   api.registerTool(
-    {
+    (ctx: OpenClawPluginToolContext) => ({
       name: "feishu_perm",
       label: "Feishu Perm",
       description: "Feishu permission management. Actions: list, add, remove",
@@ -135,7 +142,7 @@ export function registerFeishuPermTools(api: OpenClawPluginApi) {
       async execute(_toolCallId, params) {
         const p = params as FeishuPermParams;
         try {
-          const client = getClient();
+          const client = getClient(ctx);
           switch (p.action) {
             case "list":
               return json(await listMembers(client, p.token, p.type));
@@ -152,7 +159,7 @@ export function registerFeishuPermTools(api: OpenClawPluginApi) {
           return json({ error: err instanceof Error ? err.message : String(err) });
         }
       },
-    },
+    }),
     { name: "feishu_perm" },
   );
 
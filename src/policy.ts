@@ -1,5 +1,6 @@
 import type { ChannelGroupContext, GroupToolPolicyConfig } from "openclaw/plugin-sdk";
 import type { FeishuConfig, FeishuGroupConfig } from "./types.js";
+import { resolveFeishuAccount } from "./accounts.js";
 
 export type FeishuAllowlistMatch = {
   allowed: boolean;
@@ -53,8 +54,8 @@ export function resolveFeishuGroupConfig(params: {
 export function resolveFeishuGroupToolPolicy(
   params: ChannelGroupContext,
 ): GroupToolPolicyConfig | undefined {
-  const cfg = params.cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!cfg) return undefined;
+  if (!params.cfg.channels?.feishu) return undefined;
+  const cfg = resolveFeishuAccount({ cfg: params.cfg, accountId: params.accountId }).config;
 
   const groupConfig = resolveFeishuGroupConfig({
     cfg,
@@ -0,0 +1,376 @@
+/**
+ * Feishu post (rich text) message content.
+ * Received as `{ title?, content: [[element, ...], ...] }` (one array per paragraph);
+ * the message API may also wrap it per locale: `{ zh_cn: { title, content } }`.
+ * @see https://open.feishu.cn/document/server-docs/im-v1/message-content-description/message_content#c9e08671
+ */
+export type FeishuPostElement = {
+  tag: string;
+  text?: string;
+  href?: string;
+  user_id?: string;
+  user_name?: string;
+  image_key?: string;
+  file_key?: string;
+  file_name?: string;
+  emoji_type?: string;
+  language?: string;
+  style?: string[];
+};
+
+export type FeishuPostMention = {
+  key: string;
+  id?: { open_id?: string; user_id?: string };
+  name?: string;
+};
+
+export type FeishuPostMedia = {
+  fileKey: string;
+  fileName?: string;
+  kind: "video" | "file";
+};
+
+export type ParsedFeishuPost = {
+  /** Markdown rendering of the post, media replaced by `<media:*>` placeholders */
+  markdown: string;
+  imageKeys: string[];
+  media: FeishuPostMedia[];
+};
+
+function unwrapPost(parsed: any): { title?: string; content?: FeishuPostElement[][] } {
+  if (Array.isArray(parsed?.content)) return parsed;
+  // Locale-wrapped: take the first locale that has content
+  for (const value of Object.values(parsed ?? {})) {
+    if (value && typeof value === "object" && Array.isArray((value as any).content)) {
+      return value as { title?: string; content?: FeishuPostElement[][] };
+    }
+  }
+  return {};
+}
+
+function applyTextStyle(text: string, style?: string[]) {
+  if (!text.trim() || !style?.length) return text;
+  const styles = new Set(style);
+  // Keep surrounding whitespace outside the markers, or Markdown won't parse them
+  const [, lead, core, trail] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text) ?? ["", "", text, ""];
+  let out = core;
+  if (styles.has("code_inline") || styles.has("inline_code")) out = `\`${out}\``;
+  if (styles.has("lineThrough")) out = `~~${out}~~`;
+  if (styles.has("italic")) out = `*${out}*`;
+  if (styles.has("bold")) out = `**${out}**`;
+  return `${lead}${out}${trail}`;
+}
+
+function resolveMentionName(
+  element: FeishuPostElement,
+  mentions: FeishuPostMention[],
+  botOpenId?: string,
+): string | null {
+  if (element.user_id === "all") return "所有人";
+  const mention = mentions.find(
+    (m) => m.key === element.user_id || (element.user_id && m.id?.open_id === element.user_id),
+  );
+  // The bot's own mention only addresses the message; drop it like stripBotMention does
+  if (mention && botOpenId && mention.id?.open_id === botOpenId) return null;
+  return mention?.name || element.user_name || element.user_id || "";
+}
+
+/**
+ * Convert post content to Markdown, keeping links, code, emphasis and mention names.
+ * Embedded images/videos/files are returned separately for download.
+ */
+export function parseFeishuPostContent(
+  content: string,
+  options: { mentions?: FeishuPostMention[]; botOpenId?: string } = {},
+): ParsedFeishuPost {
+  const mentions = options.mentions ?? [];
+  const imageKeys: string[] = [];
+  const media: FeishuPostMedia[] = [];
+
+  let post: { title?: string; content?: FeishuPostElement[][] };
+  try {
+    post = unwrapPost(JSON.parse(content));
+  } catch {
+    return { markdown: "[富文本消息]", imageKeys, media };
+  }
+
+  const lines: string[] = [];
+  if (post.title) lines.push(`**${post.title}**`, "");
+
+  for (const paragraph of post.content ?? []) {
+    if (!Array.isArray(paragraph)) continue;
+    let line = "";
+    let leadingBotMention = false;
+    // Block-level elements (code blocks, rules) get lines of their own
+    const flushLine = () => {
+      if (line) lines.push(line);
+      line = "";
+    };
+
+    for (const element of paragraph) {
+      switch (element.tag) {
+        case "text":
+          line += applyTextStyle(element.text ?? "", element.style);
+          break;
+        case "md":
+          line += element.text ?? "";
+          break;
+        case "a": {
+          const label = element.text || element.href || "";
+          line += element.href ? `[${applyTextStyle(label, element.style)}](${element.href})` : label;
+          break;
+        }
+        case "at": {
+          const name = resolveMentionName(element, mentions, options.botOpenId);
+          if (name !== null) line += `@${name}`;
+          else if (!line) leadingBotMention = true;
+          break;
+        }
+        case "emotion":
+          line += element.emoji_type ? `:${element.emoji_type}:` : "";
+          break;
+        case "img":
+          if (element.image_key) {
+            imageKeys.push(element.image_key);
+            line += "<media:image>";
+          }
+          break;
+        case "media":
+          if (element.file_key) {
+            media.push({ fileKey: element.file_key, fileName: element.file_name, kind: "video" });
+            line += "<media:video>";
+          }
+          break;
+        case "file":
+          if (element.file_key) {
+            media.push({ fileKey: element.file_key, fileName: element.file_name, kind: "file" });
+            line += `<media:document>${element.file_name ? ` ${element.file_name}` : ""}`;
+          }
+          break;
+        case "code_block":
+          flushLine();
+          lines.push(`\`\`\`${element.language?.toLowerCase() ?? ""}`, (element.text ?? "").replace(/\n$/, ""), "```");
+          break;
+        case "hr":
+          flushLine();
+          lines.push("---");
+          break;
+        default:
+          line += element.text ?? "";
+      }
+    }
+    // Paragraphs are separate lines; a bare line keeps list items and quotes intact
+    lines.push(leadingBotMention ? line.trimStart() : line);
+  }
+
+  const markdown = lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { markdown: markdown || "[富文本消息]", imageKeys, media };
+}
+
+// --- Outbound: Markdown -> post ---
+
+export type FeishuPost = {
+  title?: string;
+  content: FeishuPostElement[][];
+};
+
+/** Feishu rejects post messages over 30KB; leave room for the request envelope */
+export const MAX_POST_BYTES = 28 * 1024;
+
+const INLINE_TOKEN_RE =
+  /<at\s+(?:user_)?id="?([^">\s]+)"?\s*>([^<]*)<\/at>|\[([^\]]*)\]\(([^)\s]+)\)|\*\*([^*]+)\*\*|__([^_]+)__|~~([^~]+)~~|\*([^*\s][^*]*)\*/g;
+
+// Native post text styles can't express these; such paragraphs go out as an `md` element
+function needsMarkdownElement(line: string) {
+  return /`[^`]+`/.test(line) || /^\s*(?:[-*+]\s|\d+[.)]\s|>\s?)/.test(line);
+}
+
+function parseInline(line: string): FeishuPostElement[] {
+  const elements: FeishuPostElement[] = [];
+  const pushText = (text: string, style?: string[]) => {
+    if (text) elements.push(style ? { tag: "text", text, style } : { tag: "text", text });
+  };
+
+  let lastIndex = 0;
+  for (const match of line.matchAll(INLINE_TOKEN_RE)) {
+    pushText(line.slice(lastIndex, match.index));
+    lastIndex = (match.index ?? 0) + match[0].length;
+    const [, atId, , linkText, href, bold, boldAlt, strike, italic] = match;
+    if (atId) {
+      elements.push({ tag: "at", user_id: atId });
+    } else if (href) {
+      elements.push({ tag: "a", text: linkText || href, href });
+    } else if (bold || boldAlt) {
+      pushText(bold || boldAlt, ["bold"]);
+    } else if (strike) {
+      pushText(strike, ["lineThrough"]);
+    } else if (italic) {
+      pushText(italic, ["italic"]);
+    }
+  }
+  pushText(line.slice(lastIndex));
+  return elements;
+}
+
+/**
+ * Convert agent Markdown to post content. A leading heading becomes the title, fenced
+ * code becomes `code_block`, and `![alt](src)` images are uploaded through
+ * `uploadImage` (falling back to a link when that fails).
+ */
+export async function markdownToFeishuPost(
+  markdown: string,
+  options: { uploadImage?: (src: string) => Promise<string | undefined> } = {},
+): Promise<FeishuPost> {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const content: FeishuPostElement[][] = [];
+  let title: string | undefined;
+
+  let index = 0;
+  while (index < lines.length && !lines[index].trim()) index++;
+  const heading = /^#{1,6}\s+(.+?)\s*#*$/.exec(lines[index] ?? "");
+  if (heading) {
+    title = heading[1];
+    index++;
+  }
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+
+    const fence = /^\s*(`{3,}|~{3,})\s*([\w+-]*)/.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      for (index++; index < lines.length && !lines[index].trim().startsWith(fence[1]); index++) {
+        code.push(lines[index]);
+      }
+      content.push([
+        { tag: "code_block", language: fence[2] ? fence[2].toUpperCase() : undefined, text: code.join("\n") },
+      ]);
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      content.push([{ tag: "hr" }]);
+      continue;
+    }
+
+    // Images need a paragraph of their own
+    const image = /^\s*!\[([^\]]*)\]\(([^)\s]+)\)\s*$/.exec(line);
+    if (image) {
+      const [, alt, src] = image;
+      const imageKey = /^img_/.test(src) ? src : await options.uploadImage?.(src).catch(() => undefined);
+      if (imageKey) {
+        content.push([{ tag: "img", image_key: imageKey }]);
+      } else if (/^https?:\/\//i.test(src)) {
+        content.push([{ tag: "a", text: alt || src, href: src }]);
+      } else {
+        content.push([{ tag: "text", text: `[图片: ${alt || src}]` }]);
+      }
+      continue;
+    }
+
+    const subheading = /^#{1,6}\s+(.+?)\s*#*$/.exec(line);
+    if (subheading) {
+      content.push([{ tag: "text", text: subheading[1], style: ["bold"] }]);
+      continue;
+    }
+
+    if (needsMarkdownElement(line)) {
+      content.push([{ tag: "md", text: line }]);
+      continue;
+    }
+
+    content.push(parseInline(line));
+  }
+
+  // Trim blank paragraphs at the edges
+  const isBlank = (paragraph: FeishuPostElement[]) =>
+    paragraph.every((element) => element.tag === "text" && !element.text?.trim());
+  while (content.length > 0 && isBlank(content[0])) content.shift();
+  while (content.length > 0 && isBlank(content[content.length - 1])) content.pop();
+
+  return { title, content };
+}
+
+function measurePostBytes(post: FeishuPost) {
+  return Buffer.byteLength(JSON.stringify({ zh_cn: post }), "utf8");
+}
+
+const jsonBytes = (value: unknown) => Buffer.byteLength(JSON.stringify(value), "utf8");
+
+// Break a single paragraph that alone exceeds the limit into pieces. Long text runs are
+// cut in between; every part keeps its own element's tag, style and link.
+function splitOversizedParagraph(paragraph: FeishuPostElement[], maxBytes: number) {
+  const pieces: FeishuPostElement[][] = [];
+  let current: FeishuPostElement[] = [];
+  let currentBytes = jsonBytes([]);
+  const flush = () => {
+    if (current.length > 0) pieces.push(current);
+    current = [];
+    currentBytes = jsonBytes([]);
+  };
+  // +1 for the separating comma
+  const add = (element: FeishuPostElement, bytes: number) => {
+    current.push(element);
+    currentBytes += bytes + 1;
+  };
+
+  for (const element of paragraph) {
+    const bytes = jsonBytes(element);
+    if (currentBytes + bytes + 1 <= maxBytes) {
+      add(element, bytes);
+      continue;
+    }
+    if (!element.text) {
+      flush();
+      add(element, bytes);
+      continue;
+    }
+    const overhead = jsonBytes({ ...element, text: "" });
+    let text = "";
+    let textBytes = 0;
+    for (const char of element.text) {
+      const charBytes = jsonBytes(char) - 2;
+      if (currentBytes + overhead + textBytes + charBytes + 1 > maxBytes) {
+        if (text) add({ ...element, text }, overhead + textBytes);
+        text = "";
+        textBytes = 0;
+        flush();
+      }
+      text += char;
+      textBytes += charBytes;
+    }
+    if (text) add({ ...element, text }, overhead + textBytes);
+  }
+  flush();
+  return pieces;
+}
+
+/** Split a post into several that each stay under `maxBytes`; only the first keeps the title. */
+export function chunkFeishuPost(post: FeishuPost, maxBytes = MAX_POST_BYTES): FeishuPost[] {
+  if (measurePostBytes(post) <= maxBytes) return [post];
+
+  const chunks: FeishuPost[] = [];
+  let current: FeishuPost = { title: post.title, content: [] };
+  const paragraphBudget = maxBytes - measurePostBytes({ title: post.title, content: [] }) - 64;
+
+  for (const paragraph of post.content) {
+    const pieces =
+      Buffer.byteLength(JSON.stringify(paragraph), "utf8") > paragraphBudget
+        ? splitOversizedParagraph(paragraph, paragraphBudget)
+        : [paragraph];
+    for (const piece of pieces) {
+      const candidate = { ...current, content: [...current.content, piece] };
+      if (current.content.length > 0 && measurePostBytes(candidate) > maxBytes) {
+        chunks.push(current);
+        current = { content: [piece] };
+      } else {
+        current = candidate;
+      }
+    }
+  }
+  if (current.content.length > 0) chunks.push(current);
+  return chunks;
+}
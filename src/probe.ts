@@ -2,7 +2,10 @@ import type { FeishuConfig, FeishuProbeResult } from "./types.js";
 import { createFeishuClient } from "./client.js";
 import { resolveFeishuCredentials } from "./accounts.js";
 
-export async function probeFeishu(cfg?: FeishuConfig): Promise<FeishuProbeResult> {
+export async function probeFeishu(
+  cfg?: FeishuConfig,
+  accountId?: string,
+): Promise<FeishuProbeResult> {
   const creds = resolveFeishuCredentials(cfg);
   if (!creds) {
     return {
@@ -12,7 +15,7 @@ export async function probeFeishu(cfg?: FeishuConfig): Promise<FeishuProbeResult
   }
 
   try {
-    const client = createFeishuClient(cfg!);
+    const client = createFeishuClient(cfg!, accountId);
     // Use im.chat.list as a simple connectivity test
     // The bot info API path varies by SDK version
     const response = await (client as any).request({
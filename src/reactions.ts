@@ -1,6 +1,6 @@
 import type { ClawdbotConfig } from "openclaw/plugin-sdk";
-import type { FeishuConfig } from "./types.js";
 import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccount } from "./accounts.js";
 
 export type FeishuReaction = {
   reactionId: string;
@@ -16,16 +16,17 @@ export type FeishuReaction = {
  */
 export async function addReactionFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   emojiType: string;
 }): Promise<{ reactionId: string }> {
-  const { cfg, messageId, emojiType } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, messageId, emojiType } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
 
   const response = (await client.im.messageReaction.create({
     path: { message_id: messageId },
@@ -57,16 +58,17 @@ export async function addReactionFeishu(params: {
  */
 export async function removeReactionFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   reactionId: string;
 }): Promise<void> {
-  const { cfg, messageId, reactionId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, messageId, reactionId } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
 
   const response = (await client.im.messageReaction.delete({
     path: {
@@ -85,16 +87,17 @@ export async function removeReactionFeishu(params: {
  */
 export async function listReactionsFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   emojiType?: string;
 }): Promise<FeishuReaction[]> {
-  const { cfg, messageId, emojiType } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, messageId, emojiType } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
 
   const response = (await client.im.messageReaction.list({
     path: { message_id: messageId },
@@ -4,6 +4,7 @@ export type AgentToolCallPart = {
   type: "tool-call";
   toolName: string;
   toolUseId?: string;
+  args?: unknown;
   startedAt?: number;
 };
 export type AgentToolResultPart = {
@@ -11,6 +12,7 @@ export type AgentToolResultPart = {
   toolUseId?: string;
   text?: string;
   raw?: unknown;
+  isError?: boolean;
   completedAt?: number;
   durationMs?: number;
 };
@@ -25,6 +27,12 @@ export type TimelineEntry = {
   toolUseId?: string;
   toolName?: string;
   durationMs?: number;
+  /** Truncated, pretty-printed tool input */
+  toolArgs?: string;
+  /** Truncated tool output */
+  toolResult?: string;
+  isError?: boolean;
+  startedAt?: number;
 };
 
 export interface MessageDisplayChunks {
@@ -56,8 +64,17 @@ function normalizeWhitespace(value: string) {
   return value.replace(/\s+/g, " ").trim();
 }
 
-function buildToolCallContent(toolName: string, durationMs?: number) {
-  const base = formatToolCall(toolName);
+// Keep per-call details small; a card carries many tool calls and Feishu caps card size.
+const MAX_TOOL_ARGS_PREVIEW = 400;
+const MAX_TOOL_RESULT_PREVIEW = 600;
+// Older calls beyond this render as a single line without details
+const MAX_DETAILED_TOOL_ENTRIES = 12;
+
+function buildToolCallContent(toolName: string, durationMs?: number, isError?: boolean) {
+  let base = formatToolCall(toolName);
+  if (isError) {
+    base = `<font color='red'>${base}</font> <text_tag color='red'>失败</text_tag>`;
+  }
   if (typeof durationMs === "number" && Number.isFinite(durationMs)) {
     const seconds = Math.max(durationMs, 0) / 1000;
     const formatted = seconds.toFixed(1);
@@ -67,6 +84,44 @@ function buildToolCallContent(toolName: string, durationMs?: number) {
   return base;
 }
 
+function formatPreview(value: unknown, maxLength: number): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  let text: string;
+  if (typeof value === "string") {
+    text = value;
+  } else {
+    try {
+      text = JSON.stringify(value, null, 2);
+    } catch {
+      text = String(value);
+    }
+  }
+  text = text.trim();
+  if (!text || text === "{}") return undefined;
+  if (text.length > maxLength) {
+    text = `${text.slice(0, maxLength)}\n…（已截断，共 ${text.length} 字符）`;
+  }
+  // A stray fence would close the code block the preview is rendered in
+  return text.replace(/```/g, "'''");
+}
+
+function formatToolResultPreview(part: AgentToolResultPart) {
+  return formatPreview(part.text ?? part.raw, MAX_TOOL_RESULT_PREVIEW);
+}
+
+function applyToolResult(entry: TimelineEntry, part: AgentToolResultPart) {
+  const durationMs = resolveDurationMs({
+    reportedDurationMs: part.durationMs,
+    startedAt: entry.startedAt,
+    completedAt: part.completedAt,
+  });
+  const toolName = entry.toolName || "unknown-tool";
+  entry.durationMs = durationMs;
+  entry.isError = Boolean(part.isError);
+  entry.toolResult = formatToolResultPreview(part);
+  entry.content = buildToolCallContent(toolName, durationMs, entry.isError);
+}
+
 function resolveDurationMs({
   reportedDurationMs,
   startedAt,
@@ -90,10 +145,7 @@ function resolveDurationMs({
 export function collectDisplayChunks(messages: AgentCoreMessage[]): MessageDisplayChunks {
   const timeline: TimelineEntry[] = [];
   const textParts: string[] = [];
-  const toolEntryMap = new Map<
-    string,
-    { index: number; toolName: string; startedAt?: number; durationMs?: number }
-  >();
+  const toolEntryMap = new Map<string, number>();
 
   for (const message of messages) {
     if (message.role === "assistant") {
@@ -120,14 +172,11 @@ export function collectDisplayChunks(messages: AgentCoreMessage[]): MessageDispl
             toolName,
             toolUseId: content.toolUseId,
             content: buildToolCallContent(toolName),
+            toolArgs: formatPreview(content.args, MAX_TOOL_ARGS_PREVIEW),
+            startedAt: content.startedAt,
           };
-          const startedAt = content.startedAt;
           if (content.toolUseId) {
-            toolEntryMap.set(content.toolUseId, {
-              index: timeline.length,
-              toolName,
-              startedAt,
-            });
+            toolEntryMap.set(content.toolUseId, timeline.length);
           }
           timeline.push(entry);
         }
@@ -143,21 +192,12 @@ export function collectDisplayChunks(messages: AgentCoreMessage[]): MessageDispl
         if (!toolUseId) {
           continue;
         }
-        const entryMeta = toolEntryMap.get(toolUseId);
-        if (!entryMeta) {
-          continue;
-        }
-        const entry = timeline[entryMeta.index];
+        const index = toolEntryMap.get(toolUseId);
+        const entry = index === undefined ? undefined : timeline[index];
         if (!entry) {
           continue;
         }
-        const durationMs = resolveDurationMs({
-          reportedDurationMs: part.durationMs,
-          startedAt: entryMeta.startedAt,
-          completedAt: part.completedAt,
-        });
-        entry.durationMs = durationMs;
-        entry.content = buildToolCallContent(entryMeta.toolName, durationMs);
+        applyToolResult(entry, part);
       }
     }
   }
@@ -178,6 +218,10 @@ export type RenderState = {
   isTimelineCollapsed: boolean;
   timelineMarkdown: string;
   showTimelinePanel: boolean;
+  /** Render a Stop button while the run is still in progress */
+  cancelable?: boolean;
+  /** Older timeline entries dropped to keep the card under the size limit */
+  omittedTimelineCount?: number;
 };
 
 export class AgentRunTracker {
@@ -203,6 +247,7 @@ export class AgentRunTracker {
 
   appendMessages(messages: AgentCoreMessage[]) {
     const { timeline, finalText } = collectDisplayChunks(messages);
+    this.applyEarlierToolResults(messages, timeline);
     for (const entry of timeline) {
       const key = this.getTimelineEntryKey(entry);
       if (entry.content && !this.seen.has(key)) {
@@ -214,8 +259,10 @@ export class AgentRunTracker {
         const existingIndex = this.timeline.findIndex(
           (item) => item.toolUseId === entry.toolUseId,
         );
-        if (existingIndex !== -1) {
-          this.timeline[existingIndex] = entry;
+        // Don't let a repeated bare call overwrite a result we already have
+        const existing = this.timeline[existingIndex];
+        if (existing && (entry.durationMs !== undefined || existing.durationMs === undefined)) {
+          this.timeline[existingIndex] = { ...existing, ...entry, toolArgs: entry.toolArgs ?? existing.toolArgs };
         }
       }
     }
@@ -224,6 +271,23 @@ export class AgentRunTracker {
     }
   }
 
+  // Results often arrive in a later batch than their call; match them by toolUseId
+  private applyEarlierToolResults(messages: AgentCoreMessage[], batch: TimelineEntry[]) {
+    const inBatch = new Set(batch.map((entry) => entry.toolUseId).filter(Boolean));
+    for (const message of messages) {
+      if (message.role !== "tool") continue;
+      for (const part of message.content) {
+        if (part.type !== "tool-result" || !part.toolUseId || inBatch.has(part.toolUseId)) {
+          continue;
+        }
+        const entry = this.timeline.find((item) => item.toolUseId === part.toolUseId);
+        if (entry) {
+          applyToolResult(entry, part);
+        }
+      }
+    }
+  }
+
   setDraftAnswer(answer: string) {
     this.draftAnswer = answer;
   }
@@ -319,6 +383,77 @@ export function isTerminalStatus(status: AgentRunStatus) {
   );
 }
 
+function buildToolDetailElements(entry: TimelineEntry) {
+  const sections: string[] = [];
+  if (entry.toolArgs) {
+    sections.push(`**参数**\n\`\`\`json\n${entry.toolArgs}\n\`\`\``);
+  }
+  if (entry.toolResult) {
+    sections.push(`**${entry.isError ? "错误" : "结果"}**\n\`\`\`\n${entry.toolResult}\n\`\`\``);
+  }
+  return sections.map((content) => ({ tag: "markdown", content }));
+}
+
+/**
+ * Timeline panel content. Tool calls with captured input/output become nested
+ * collapsible panels (failed ones outlined in red); everything else stays markdown.
+ */
+function buildTimelineElements(
+  timeline: TimelineEntry[],
+  fallbackMarkdown: string,
+  omittedCount = 0,
+) {
+  const toolEntries = timeline.filter((entry) => entry.kind === "tool-call");
+  const detailed = new Set(toolEntries.slice(-MAX_DETAILED_TOOL_ENTRIES));
+  const elements: Array<Record<string, unknown>> = [];
+  let markdownLines: string[] = [];
+  if (omittedCount > 0) {
+    markdownLines.push(`<font color='grey'>已省略较早的 ${omittedCount} 条记录</font>`);
+  }
+
+  const flushMarkdown = () => {
+    if (markdownLines.length === 0) return;
+    elements.push({ tag: "markdown", content: markdownLines.join("\n") });
+    markdownLines = [];
+  };
+
+  for (const entry of timeline) {
+    if (!entry.content) continue;
+    const details = detailed.has(entry) ? buildToolDetailElements(entry) : [];
+    if (details.length === 0) {
+      markdownLines.push(entry.kind === "thinking" ? `*思考*: ${entry.content}` : entry.content);
+      continue;
+    }
+    flushMarkdown();
+    elements.push({
+      tag: "collapsible_panel",
+      expanded: false,
+      header: {
+        title: { tag: "markdown", content: entry.content },
+        icon: { tag: "standard_icon", token: "down-small-ccm_outlined", size: "16px 16px" },
+        icon_position: "right",
+        icon_expanded_angle: -180,
+      },
+      border: { color: entry.isError ? "red" : "grey", corner_radius: "5px" },
+      vertical_spacing: "4px",
+      padding: "4px 8px 4px 8px",
+      elements: details,
+    });
+  }
+  flushMarkdown();
+
+  if (elements.length === 0) {
+    return [{ tag: "markdown", content: fallbackMarkdown || "暂无过程记录" }];
+  }
+  return elements;
+}
+
+/** Callback value marker for the Stop button; handled by the plugin, never sent to the agent. */
+export const CANCEL_RUN_ACTION = "cancel_run";
+
+/** element_id of the answer markdown, targeted by CardKit streaming updates. */
+export const ANSWER_ELEMENT_ID = "answer";
+
 export function buildLarkCard(state: RenderState) {
   const elements: Array<Record<string, unknown>> = [];
 
@@ -329,11 +464,30 @@ export function buildLarkCard(state: RenderState) {
       header: {
         title: { tag: "plain_text", content: "执行过程" },
       },
-      elements: [{ tag: "markdown", content: state.timelineMarkdown || "暂无过程记录" }],
+      elements: buildTimelineElements(
+        state.timeline,
+        state.timelineMarkdown,
+        state.omittedTimelineCount,
+      ),
     });
   }
 
-  elements.push({ tag: "markdown", content: state.body || "思考中..." });
+  elements.push({
+    tag: "markdown",
+    element_id: ANSWER_ELEMENT_ID,
+    content: state.body || "思考中...",
+  });
+
+  if (state.cancelable && !isTerminalStatus(state.status)) {
+    elements.push({
+      tag: "button",
+      text: { tag: "plain_text", content: "停止" },
+      type: "danger",
+      size: "small",
+      icon: { tag: "standard_icon", token: "close_outlined" },
+      behaviors: [{ type: "callback", value: { feishu_action: CANCEL_RUN_ACTION } }],
+    });
+  }
 
   const headerTemplate = (() => {
     switch (state.status) {
@@ -384,3 +538,135 @@ export function buildLarkCard(state: RenderState) {
     },
   };
 }
+
+/** Feishu rejects cards over ~30KB; keep some headroom for the request envelope. */
+export const MAX_CARD_BYTES = 28 * 1024;
+
+// Room reserved for the continuation note and re-opened code fences
+const OVERFLOW_NOTE_RESERVE_BYTES = 256;
+
+export function measureCardBytes(card: Record<string, unknown>) {
+  return Buffer.byteLength(JSON.stringify(card), "utf8");
+}
+
+// Size of a string once embedded in card JSON (escapes included, quotes excluded)
+function measureJsonStringBytes(text: string) {
+  return Buffer.byteLength(JSON.stringify(text), "utf8") - 2;
+}
+
+function splitOversizedLine(line: string, maxBytes: number) {
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    if (current && measureJsonStringBytes(current + char) > maxBytes) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * Split markdown into chunks that each fit `maxBytes` (as card JSON), breaking on
+ * line boundaries. A code block cut in two is closed and re-opened so both halves render.
+ */
+export function splitMarkdownByBytes(text: string, firstMaxBytes: number, restMaxBytes: number) {
+  const chunks: string[] = [];
+  let lines: string[] = [];
+  let openFence: string | null = null;
+  const budget = () => (chunks.length === 0 ? firstMaxBytes : restMaxBytes);
+
+  const pushChunk = () => {
+    if (lines.length === 0) return;
+    chunks.push(openFence ? `${lines.join("\n")}\n\`\`\`` : lines.join("\n"));
+    lines = openFence ? [openFence] : [];
+  };
+
+  for (const rawLine of text.split("\n")) {
+    for (const line of splitOversizedLine(rawLine, Math.max(budget() - 16, 64))) {
+      const candidate = [...lines, line].join("\n");
+      if (lines.length > 0 && measureJsonStringBytes(candidate) > budget()) {
+        pushChunk();
+      }
+      lines.push(line);
+    }
+    if (rawLine.trimStart().startsWith("```")) {
+      openFence = openFence ? null : rawLine.trimStart();
+    }
+  }
+  if (lines.length > 0 && !(openFence && lines.length === 1 && lines[0] === openFence)) {
+    chunks.push(lines.join("\n"));
+  }
+  return chunks.length > 0 ? chunks : [""];
+}
+
+/** Follow-up card carrying part of an answer that did not fit into the main card. */
+export function buildContinuationCard(text: string, part: number, total: number) {
+  return {
+    schema: "2.0",
+    config: { wide_screen_mode: true },
+    header: {
+      template: "grey",
+      title: { tag: "plain_text", content: `回复（续 ${part}/${total}）`, text_size: "normal" },
+      padding: "5px 12px 5px 12px",
+    },
+    body: {
+      direction: "vertical",
+      elements: [{ tag: "markdown", content: text }],
+    },
+  };
+}
+
+export type BudgetedLarkCard = {
+  card: Record<string, unknown>;
+  /** Answer parts that go into follow-up cards (see buildContinuationCard) */
+  overflow: string[];
+};
+
+/**
+ * buildLarkCard under the card size limit. The timeline gives way first (tool details,
+ * then the oldest entries); an answer that still doesn't fit is split, with the first
+ * part in this card and the rest returned as `overflow`.
+ */
+export function buildBudgetedLarkCard(
+  state: RenderState,
+  maxBytes = MAX_CARD_BYTES,
+): BudgetedLarkCard {
+  let card = buildLarkCard(state);
+  if (measureCardBytes(card) <= maxBytes) {
+    return { card, overflow: [] };
+  }
+
+  let timeline = state.timeline.map(({ toolArgs, toolResult, ...entry }) => entry);
+  let trimmed: RenderState = { ...state, timeline, timelineMarkdown: "" };
+  card = buildLarkCard(trimmed);
+  let omitted = 0;
+  while (measureCardBytes(card) > maxBytes && timeline.length > 0) {
+    const drop = Math.max(1, Math.ceil(timeline.length / 4));
+    omitted += drop;
+    timeline = timeline.slice(drop);
+    trimmed = {
+      ...trimmed,
+      timeline,
+      omittedTimelineCount: omitted,
+      showTimelinePanel: trimmed.showTimelinePanel && timeline.length > 0,
+    };
+    card = buildLarkCard(trimmed);
+  }
+  if (measureCardBytes(card) <= maxBytes) {
+    return { card, overflow: [] };
+  }
+
+  const firstBudget =
+    maxBytes - measureCardBytes(buildLarkCard({ ...trimmed, body: "" })) - OVERFLOW_NOTE_RESERVE_BYTES;
+  const restBudget =
+    maxBytes - measureCardBytes(buildContinuationCard("", 99, 99)) - OVERFLOW_NOTE_RESERVE_BYTES;
+  const [first, ...rest] = splitMarkdownByBytes(trimmed.body, firstBudget, restBudget);
+  const note = isTerminalStatus(state.status)
+    ? `内容较长，剩余 ${rest.length} 部分见下方回复`
+    : "内容较长，完整内容将在完成后分条发送";
+  card = buildLarkCard({ ...trimmed, body: `${first}\n\n<font color='grey'>${note}</font>` });
+  return { card, overflow: rest };
+}
@@ -4,29 +4,48 @@ import {
   sendMessageFeishu,
   sendCardFeishu,
   sendMarkdownCardFeishu,
+  sendMarkdownPostFeishu,
   updateCardFeishu,
 } from "../send.js";
-import type { FeishuConfig } from "../types.js";
 import {
+  buildCardEntityContent,
+  createCardEntityFeishu,
+  setCardStreamingModeFeishu,
+  streamCardElementFeishu,
+  updateCardEntityFeishu,
+} from "../cardkit.js";
+import { resolveFeishuAccount } from "../accounts.js";
+import {
+  ANSWER_ELEMENT_ID,
   AgentRunStatus,
   AgentRunTracker,
-  buildLarkCard,
+  buildBudgetedLarkCard,
+  buildContinuationCard,
 } from "./agent-card-view.js";
 import { buildMentionedCardContent, type MentionTarget } from "../mention.js";
+import { registerActiveRun, unregisterActiveRun, type ActiveRunHandle } from "../active-runs.js";
 
 type FeishuRenderController = {
-  deliver: (payload: ReplyPayload) => Promise<void>;
+  /** `info.kind` is openclaw's payload kind: "tool", "block" or "final" */
+  deliver: (payload: ReplyPayload, info?: { kind: string }) => Promise<void>;
   finalize?: () => Promise<void>;
   onError?: (err: unknown) => Promise<void>;
 };
 
 type CreateFeishuRendererParams = {
   cfg: ClawdbotConfig;
+  accountId?: string;
   agentId: string;
   runtime: RuntimeEnv;
   chatId: string;
   replyToMessageId?: string;
+  /** Keep replies inside the thread of `replyToMessageId` */
+  replyInThread?: boolean;
   mentionTargets?: MentionTarget[];
+  /** Enables the Stop button on the agent card; called when it is clicked */
+  onCancel?: () => void;
+  /** open_id of the user who started the run; only they can stop it */
+  requesterOpenId?: string;
 };
 
 function shouldUseCard(text: string): boolean {
@@ -48,50 +67,54 @@ function applyMentions(mentions: MentionTarget[] | undefined, text: string): str
   return buildMentionedCardContent(mentions, text);
 }
 
-const TOOL_NAMES = new Set(
-  [
-    "read",
-    "write",
-    "edit",
-    "exec",
-    "process",
-    "web_search",
-    "web_fetch",
-    "browser",
-    "message",
-    "sessions_list",
-    "sessions_send",
-    "sessions_read",
-    "sessions_search",
-    "sessions_info",
-    "librarian",
-    "oracle",
-    "explore",
-    "prometheus",
-    "sisyphus-junior",
-    "metis",
-    "momus",
-    "multimodal-looker",
-    "skill",
-    "skill_mcp",
-    "google_search",
-    "zread_search_doc",
-    "zread_read_file",
-    "zread_get_repo_structure",
-    "web-search-prime_webSearchPrime",
-    "zai-mcp-server_ui_to_artifact",
-    "zai-mcp-server_extract_text_from_screenshot",
-    "zai-mcp-server_diagnose_error_screenshot",
-    "zai-mcp-server_understand_technical_diagram",
-    "zai-mcp-server_analyze_data_visualization",
-    "zai-mcp-server_ui_diff_check",
-    "zai-mcp-server_analyze_image",
-    "zai-mcp-server_analyze_video",
-    "cron",
-  ].map((s) => s.toLowerCase()),
-);
-
-function splitToolSummaryLines(text: string) {
+/**
+ * Decides which lines of a verbose tool summary (`🛠️ Exec: ls`) belong to the timeline.
+ * A line qualifies when it starts with an emoji and its label names a tool this run
+ * reported through structured events/messages, or matches a configured pattern.
+ */
+type ToolLineMatcher = {
+  noteToolName(name: string): void;
+  isToolLine(line: string): boolean;
+};
+
+// openclaw renders summaries as `${emoji} ${label}` or `${emoji} ${label}: ${detail}`
+const TOOL_SUMMARY_LINE_RE = /^\p{Extended_Pictographic}\uFE0F?\s*([^:：]+?)\s*(?:[:：]|$)/u;
+
+// Labels are title-cased tool names ("web_search" -> "Web Search")
+function normalizeToolLabel(value: string) {
+  return value.toLowerCase().replace(/[\s_-]+/g, " ").trim();
+}
+
+function compileToolLinePatterns(patterns: string[] | undefined, runtime: RuntimeEnv): RegExp[] {
+  const compiled: RegExp[] = [];
+  for (const pattern of patterns ?? []) {
+    try {
+      compiled.push(new RegExp(pattern, "i"));
+    } catch (err) {
+      runtime.error?.(`feishu: invalid toolLinePatterns entry ${JSON.stringify(pattern)}: ${String(err)}`);
+    }
+  }
+  return compiled;
+}
+
+function createToolLineMatcher(patterns: RegExp[]): ToolLineMatcher {
+  const knownToolNames = new Set<string>();
+  return {
+    noteToolName(name: string) {
+      const normalized = normalizeToolLabel(name);
+      if (normalized) knownToolNames.add(normalized);
+    },
+    isToolLine(line: string) {
+      const match = TOOL_SUMMARY_LINE_RE.exec(line);
+      if (!match) return false;
+      const label = match[1];
+      if (knownToolNames.has(normalizeToolLabel(label))) return true;
+      return patterns.some((pattern) => pattern.test(label) || pattern.test(line));
+    },
+  };
+}
+
+function splitToolSummaryLines(text: string, matcher: ToolLineMatcher) {
   const lines = text.split("\n");
   const toolLines: string[] = [];
   const contentLines: string[] = [];
@@ -100,16 +123,7 @@ function splitToolSummaryLines(text: string) {
     const trimmed = line.trim();
     if (!trimmed) continue;
 
-    const lower = trimmed.toLowerCase();
-    const hasToolEmoji =
-      lower.startsWith("🔧") ||
-      lower.startsWith("🔍") ||
-      lower.startsWith("📝") ||
-      lower.startsWith("💻");
-
-    const matchedTool = Array.from(TOOL_NAMES).find((name) => lower.includes(name));
-
-    if (hasToolEmoji && matchedTool && (lower.includes(":") || lower.includes("："))) {
+    if (matcher.isToolLine(trimmed)) {
       toolLines.push(trimmed);
     } else {
       contentLines.push(line);
@@ -122,6 +136,28 @@ function splitToolSummaryLines(text: string) {
   };
 }
 
+/**
+ * A tool payload from openclaw: the summary line `${emoji} ${label}: ${meta}` (meta is
+ * the command, path or query the tool was called with), followed by the tool's output
+ * in a code block when verbose is "full".
+ */
+function parseToolPayload(text: string) {
+  const [summary, ...rest] = text.trim().split("\n");
+  const match = TOOL_SUMMARY_LINE_RE.exec(summary);
+  if (!match) return null;
+  const output = rest
+    .join("\n")
+    .replace(/^```[^\n]*\n?/, "")
+    .replace(/\n?```\s*$/, "")
+    .trim();
+  return {
+    summary,
+    label: match[1],
+    detail: summary.slice(match[0].length).trim() || undefined,
+    output: output || undefined,
+  };
+}
+
 function extractAgentMessages(payload: ReplyPayload): any[] {
   const p = payload as any;
   return (
@@ -159,12 +195,17 @@ function inferStatusFromMessages(messages: any[]): AgentRunStatus | null {
   return null;
 }
 
+// Structured events carry the raw args, result and failure flag of each call. openclaw
+// itself only emits them on its in-process agent event bus, so they show up here only
+// with runtimes that attach them to reply payloads; otherwise the timeline is built
+// from tool payloads (parseToolPayload), which carry no failure flag.
 function applyVerboseEvent(params: {
   tracker: AgentRunTracker;
   event: any;
   assistantBuffer: { text: string };
+  toolLineMatcher: ToolLineMatcher;
 }) {
-  const { tracker, event, assistantBuffer } = params;
+  const { tracker, event, assistantBuffer, toolLineMatcher } = params;
   const data = event.data || {};
   const stream = event.stream || event.event || event.payload?.stream;
 
@@ -178,10 +219,45 @@ function applyVerboseEvent(params: {
     }
   } else if (stream === "tool") {
     const phase = data.phase;
+    const toolUseId = typeof data.toolCallId === "string" ? data.toolCallId : undefined;
     if (phase === "start") {
       tracker.setStatus(AgentRunStatus.ToolCalling);
+      if (data.name) {
+        toolLineMatcher.noteToolName(String(data.name));
+        tracker.appendMessages([
+          {
+            role: "assistant",
+            content: [
+              {
+                type: "tool-call",
+                toolName: String(data.name),
+                toolUseId,
+                args: data.args,
+                startedAt: Date.now(),
+              },
+            ],
+          },
+        ]);
+      }
     } else if (phase === "result" || phase === "output") {
       tracker.setStatus(AgentRunStatus.WaitingToolResult);
+      if (toolUseId && phase === "result") {
+        tracker.appendMessages([
+          {
+            role: "tool",
+            toolUseId,
+            content: [
+              {
+                type: "tool-result",
+                toolUseId,
+                raw: data.result,
+                isError: Boolean(data.isError),
+                completedAt: Date.now(),
+              },
+            ],
+          },
+        ]);
+      }
     } else if (phase === "error") {
       tracker.setStatus(AgentRunStatus.Error);
     }
@@ -194,11 +270,19 @@ function applyVerboseEvent(params: {
   }
 }
 
+type CardUpdateController = {
+  schedule(card: Record<string, unknown>): void;
+  flush(): Promise<void>;
+  /** Flush and end the update session (turns off CardKit streaming mode) */
+  close(): Promise<void>;
+};
+
 function createCardUpdateController(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
-}) {
-  const { cfg, messageId } = params;
+}): CardUpdateController {
+  const { cfg, accountId, messageId } = params;
   let pending: Record<string, unknown> | null = null;
   let inFlight: Promise<void> | null = null;
   let lastSentAt = 0;
@@ -214,7 +298,111 @@ function createCardUpdateController(params: {
     const card = pending;
     pending = null;
     lastSentAt = Date.now();
-    await updateCardFeishu({ cfg, messageId, card });
+    await updateCardFeishu({ cfg, accountId, messageId, card });
+  };
+
+  const kick = () => {
+    if (inFlight) return;
+    inFlight = (async () => {
+      try {
+        while (pending) {
+          await flushOnce();
+        }
+      } finally {
+        inFlight = null;
+        if (pending) kick();
+      }
+    })();
+  };
+
+  return {
+    schedule(card: Record<string, unknown>) {
+      pending = card;
+      kick();
+    },
+    async flush() {
+      if (inFlight) await inFlight;
+      if (pending) {
+        await flushOnce();
+      }
+    },
+    async close() {
+      await this.flush();
+    },
+  };
+}
+
+function findAnswerElement(card: Record<string, unknown>) {
+  const elements = (card.body as { elements?: Array<Record<string, unknown>> } | undefined)?.elements;
+  return elements?.find((element) => element.element_id === ANSWER_ELEMENT_ID);
+}
+
+/**
+ * Card-entity variant of the update controller. When only the answer text changed
+ * since the last push, the element content is streamed; any other change (status,
+ * timeline) replaces the whole entity. Both share one sequence counter.
+ */
+function createCardKitUpdateController(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  cardId: string;
+  onError?: (err: unknown) => void;
+}): CardUpdateController {
+  const { cfg, accountId, cardId, onError } = params;
+  let pending: Record<string, unknown> | null = null;
+  let inFlight: Promise<void> | null = null;
+  let lastSentAt = 0;
+  let sequence = 0;
+  let lastLayout: string | null = null;
+  let lastAnswer = "";
+  let streaming = true;
+  const MIN_INTERVAL_MS = 100;
+
+  const flushOnce = async () => {
+    if (!pending) return;
+    const wait = Math.max(0, MIN_INTERVAL_MS - (Date.now() - lastSentAt));
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+    const card = pending;
+    pending = null;
+    lastSentAt = Date.now();
+
+    const answerElement = findAnswerElement(card);
+    const answer = typeof answerElement?.content === "string" ? answerElement.content : "";
+    // Everything except the streamed answer text
+    const layout = JSON.stringify(card, (_key, value) =>
+      value === answerElement ? { ...value, content: "" } : value,
+    );
+
+    try {
+      if (streaming && answerElement && layout === lastLayout) {
+        if (answer === lastAnswer) return;
+        await streamCardElementFeishu({
+          cfg,
+          accountId,
+          cardId,
+          elementId: ANSWER_ELEMENT_ID,
+          content: answer,
+          sequence: ++sequence,
+        });
+      } else {
+        // A full update replaces the config too; keep streaming on until close()
+        await updateCardEntityFeishu({
+          cfg,
+          accountId,
+          cardId,
+          card: streaming ? withStreamingConfig(card) : card,
+          sequence: ++sequence,
+        });
+        lastLayout = layout;
+      }
+      lastAnswer = answer;
+    } catch (err) {
+      // Force a full update next time so the card converges
+      lastLayout = null;
+      onError?.(err);
+    }
   };
 
   const kick = () => {
@@ -242,12 +430,48 @@ function createCardUpdateController(params: {
         await flushOnce();
       }
     },
+    async close() {
+      if (inFlight) await inFlight;
+      if (streaming) {
+        streaming = false;
+        try {
+          await setCardStreamingModeFeishu({
+            cfg,
+            accountId,
+            cardId,
+            streaming: false,
+            sequence: ++sequence,
+          });
+        } catch (err) {
+          onError?.(err);
+        }
+      }
+      if (pending) {
+        await flushOnce();
+      }
+    },
+  };
+}
+
+/** Card config used while the answer streams; typing effect tuned for chat replies. */
+function withStreamingConfig(card: Record<string, unknown>): Record<string, unknown> {
+  return {
+    ...card,
+    config: {
+      ...(card.config as Record<string, unknown> | undefined),
+      streaming_mode: true,
+      streaming_config: {
+        print_frequency_ms: { default: 50 },
+        print_step: { default: 2 },
+        print_strategy: "fast",
+      },
+    },
   };
 }
 
 function createSimpleRenderer(params: CreateFeishuRendererParams): FeishuRenderController {
   const core = getFeishuRuntime();
-  const { cfg, runtime, chatId, replyToMessageId, mentionTargets } = params;
+  const { cfg, accountId, runtime, chatId, replyToMessageId, replyInThread, mentionTargets } = params;
   const textChunkLimit = core.channel.text.resolveTextChunkLimit({
     cfg,
     channel: "feishu",
@@ -269,20 +493,38 @@ function createSimpleRenderer(params: CreateFeishuRendererParams): FeishuRenderC
         return;
       }
 
-      const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-      const renderMode = feishuCfg?.renderMode ?? "auto";
+      const feishuCfg = resolveFeishuAccount({ cfg, accountId }).config;
+      const renderMode = feishuCfg.renderMode ?? "auto";
       const useCard =
         renderMode === "card" || (renderMode === "auto" && shouldUseCard(text));
 
+      if (renderMode === "post") {
+        // Split by post size rather than textChunkLimit, so code blocks stay whole
+        runtime.log?.(`feishu deliver: sending post to ${chatId}`);
+        await sendMarkdownPostFeishu({
+          cfg,
+          accountId,
+          to: chatId,
+          text,
+          replyToMessageId,
+          replyInThread,
+          mentions: isFirstChunk ? mentionTargets : undefined,
+        });
+        isFirstChunk = false;
+        return;
+      }
+
       if (useCard) {
         const chunks = core.channel.text.chunkTextWithMode(text, textChunkLimit, chunkMode);
         runtime.log?.(`feishu deliver: sending ${chunks.length} card chunks to ${chatId}`);
         for (const chunk of chunks) {
           await sendMarkdownCardFeishu({
             cfg,
+            accountId,
             to: chatId,
             text: chunk,
             replyToMessageId,
+            replyInThread,
             mentions: isFirstChunk ? mentionTargets : undefined,
           });
           isFirstChunk = false;
@@ -296,9 +538,11 @@ function createSimpleRenderer(params: CreateFeishuRendererParams): FeishuRenderC
       for (const chunk of chunks) {
         await sendMessageFeishu({
           cfg,
+          accountId,
           to: chatId,
           text: chunk,
           replyToMessageId,
+          replyInThread,
           mentions: isFirstChunk ? mentionTargets : undefined,
         });
         isFirstChunk = false;
@@ -307,38 +551,120 @@ function createSimpleRenderer(params: CreateFeishuRendererParams): FeishuRenderC
   };
 }
 
-function createAgentCardRenderer(params: CreateFeishuRendererParams): FeishuRenderController {
-  const { cfg, runtime, chatId, replyToMessageId, mentionTargets } = params;
+function createAgentCardRenderer(
+  params: CreateFeishuRendererParams,
+  options: { streaming: boolean },
+): FeishuRenderController {
+  const { cfg, accountId, runtime, chatId, replyToMessageId, replyInThread, mentionTargets, onCancel, requesterOpenId } =
+    params;
   const tracker = new AgentRunTracker();
+  const feishuCfg = resolveFeishuAccount({ cfg, accountId }).config;
+  const toolLineMatcher = createToolLineMatcher(compileToolLinePatterns(feishuCfg.toolLinePatterns, runtime));
   let messageId: string | null = null;
   let assistantBuffer = "";
-  let updater: ReturnType<typeof createCardUpdateController> | null = null;
+  let updater: CardUpdateController | null = null;
+  let canceled = false;
+  let activeRun: ActiveRunHandle | null = null;
+  // Answer parts that did not fit into the card; sent as replies to it once the run ends
+  let overflow: string[] = [];
+  let overflowSent = false;
 
   const assistantBufferState = { text: "" };
+  // Tool payloads have no call id: summaries wait here, by summary line, for their output
+  const openToolSummaries = new Map<string, string[]>();
+  let toolSummaryCount = 0;
+
+  const appendToolPayload = (tool: NonNullable<ReturnType<typeof parseToolPayload>>) => {
+    let toolUseId = openToolSummaries.get(tool.summary)?.shift();
+    if (!toolUseId) {
+      toolUseId = `summary:${++toolSummaryCount}`;
+      tracker.appendMessages([
+        {
+          role: "assistant",
+          content: [
+            { type: "tool-call", toolName: tool.label, toolUseId, args: tool.detail, startedAt: Date.now() },
+          ],
+        },
+      ]);
+      if (!tool.output) {
+        openToolSummaries.set(tool.summary, [...(openToolSummaries.get(tool.summary) ?? []), toolUseId]);
+      }
+    }
+    if (tool.output) {
+      tracker.setStatus(AgentRunStatus.WaitingToolResult);
+      tracker.appendMessages([
+        {
+          role: "tool",
+          toolUseId,
+          content: [{ type: "tool-result", toolUseId, text: tool.output, completedAt: Date.now() }],
+        },
+      ]);
+    } else {
+      tracker.setStatus(AgentRunStatus.ToolCalling);
+    }
+  };
   let initialSendPromise: Promise<void> | null = null;
 
   const renderCard = (collapseTimeline: boolean) => {
     const state = tracker.buildRenderState({ collapseTimeline });
     const body = applyMentions(mentionTargets, state.body);
-    const card = buildLarkCard({
+    const budgeted = buildBudgetedLarkCard({
       ...state,
       body,
+      cancelable: Boolean(onCancel),
     });
+    const card = budgeted.card;
+    overflow = budgeted.overflow;
     if (messageId && updater) {
       updater.schedule(card);
     }
     return card;
   };
 
+  // Falls back to the PATCH path (returns null) when CardKit is unavailable,
+  // e.g. the app lacks the cardkit:card:write scope.
+  const createStreamingCard = async (card: Record<string, unknown>) => {
+    try {
+      const { cardId } = await createCardEntityFeishu({
+        cfg,
+        accountId,
+        card: withStreamingConfig(card),
+      });
+      return cardId;
+    } catch (err) {
+      runtime.log?.(`feishu: card entity unavailable, falling back to message patch: ${String(err)}`);
+      return null;
+    }
+  };
+
   const ensureInitialCard = () => {
     if (messageId || initialSendPromise) return;
 
     initialSendPromise = (async () => {
       try {
         const card = renderCard(false);
-        const result = await sendCardFeishu({ cfg, to: chatId, card, replyToMessageId });
+        const cardId = options.streaming ? await createStreamingCard(card) : null;
+        const result = await sendCardFeishu({
+          cfg,
+          accountId,
+          to: chatId,
+          card: cardId ? buildCardEntityContent(cardId) : card,
+          replyToMessageId,
+          replyInThread,
+        });
         messageId = result.messageId;
-        updater = createCardUpdateController({ cfg, messageId });
+        updater = cardId
+          ? createCardKitUpdateController({
+              cfg,
+              accountId,
+              cardId,
+              onError: (err) => runtime.error?.(`feishu card entity update failed: ${String(err)}`),
+            })
+          : createCardUpdateController({ cfg, accountId, messageId });
+        if (onCancel) {
+          activeRun = { cancel, requesterOpenId };
+          registerActiveRun(messageId, activeRun);
+        }
         renderCard(false);
       } catch (err) {
         runtime.error?.(`feishu initial send failed: ${String(err)}`);
@@ -347,8 +673,53 @@ function createAgentCardRenderer(params: CreateFeishuRendererParams): FeishuRend
     })();
   };
 
+  const sendOverflowCards = async () => {
+    if (overflowSent || !messageId || overflow.length === 0) return;
+    overflowSent = true;
+    const total = overflow.length + 1;
+    for (const [index, text] of overflow.entries()) {
+      try {
+        await sendCardFeishu({
+          cfg,
+          accountId,
+          to: chatId,
+          card: buildContinuationCard(text, index + 2, total),
+          replyToMessageId: messageId,
+          replyInThread,
+        });
+      } catch (err) {
+        runtime.error?.(`feishu overflow card send failed: ${String(err)}`);
+        return;
+      }
+    }
+  };
+
+  const releaseActiveRun = () => {
+    if (messageId && activeRun) {
+      unregisterActiveRun(messageId, activeRun);
+      activeRun = null;
+    }
+  };
+
+  // Stop button: abort the dispatch and freeze the card with whatever answer streamed so far
+  const cancel = () => {
+    if (canceled) return;
+    canceled = true;
+    activeRun = null;
+    onCancel?.();
+    tracker.setStatus(AgentRunStatus.Canceled);
+    renderCard(true);
+    void (async () => {
+      await updater?.close();
+      await sendOverflowCards();
+    })().catch((err) => {
+      runtime.error?.(`feishu card update after stop failed: ${String(err)}`);
+    });
+  };
+
   return {
-    async deliver(payload: ReplyPayload) {
+    async deliver(payload: ReplyPayload, info?: { kind: string }) {
+      if (canceled) return;
       if (runtime.debug) {
         try {
           const snapshot = JSON.stringify(payload);
@@ -365,7 +736,7 @@ function createAgentCardRenderer(params: CreateFeishuRendererParams): FeishuRend
 
       if (events && events.length > 0) {
         for (const evt of events) {
-          applyVerboseEvent({ tracker, event: evt, assistantBuffer: assistantBufferState });
+          applyVerboseEvent({ tracker, event: evt, assistantBuffer: assistantBufferState, toolLineMatcher });
         }
         if (assistantBufferState.text) {
           assistantBuffer = assistantBufferState.text;
@@ -377,9 +748,24 @@ function createAgentCardRenderer(params: CreateFeishuRendererParams): FeishuRend
         if (nextStatus) {
           tracker.setStatus(nextStatus);
         }
+        for (const message of messages) {
+          if (message.role !== "assistant" || !Array.isArray(message.content)) continue;
+          for (const part of message.content) {
+            if (part.type === "tool-call" && part.toolName) toolLineMatcher.noteToolName(part.toolName);
+          }
+        }
         tracker.appendMessages(messages);
       } else if (payloadText.trim()) {
-        const { toolLines, remainingText } = splitToolSummaryLines(payloadText);
+        // openclaw sends tool summaries as their own payloads; those go to the timeline
+        // whatever the tool is called, and teach the matcher the label for mixed text
+        const isToolPayload = info?.kind === "tool";
+        const tool = isToolPayload ? parseToolPayload(payloadText) : null;
+        if (tool) toolLineMatcher.noteToolName(tool.label);
+        const { toolLines, remainingText } = isToolPayload
+          ? { toolLines: tool ? [] : [payloadText.trim()], remainingText: "" }
+          : splitToolSummaryLines(payloadText, toolLineMatcher);
+
+        if (tool) appendToolPayload(tool);
 
         if (toolLines.length > 0) {
           tracker.setStatus(AgentRunStatus.ToolCalling);
@@ -410,28 +796,34 @@ function createAgentCardRenderer(params: CreateFeishuRendererParams): FeishuRend
     },
     finalize: async () => {
       if (initialSendPromise) await initialSendPromise;
+      releaseActiveRun();
+      if (canceled) return;
       if (!messageId && !assistantBuffer.trim() && tracker.currentStatus === AgentRunStatus.Thinking) {
         return;
       }
       tracker.setStatus(AgentRunStatus.Completed);
       renderCard(true);
-      await updater?.flush();
+      await updater?.close();
+      await sendOverflowCards();
     },
     onError: async () => {
       if (initialSendPromise) await initialSendPromise;
+      releaseActiveRun();
+      if (canceled) return;
       if (!messageId && !assistantBuffer.trim()) return;
       tracker.setStatus(AgentRunStatus.Error);
       renderCard(true);
-      await updater?.flush();
+      await updater?.close();
+      await sendOverflowCards();
     },
   };
 }
 
 export function createFeishuRenderer(params: CreateFeishuRendererParams): FeishuRenderController {
-  const feishuCfg = params.cfg.channels?.feishu as FeishuConfig | undefined;
-  const renderEngine = feishuCfg?.renderEngine ?? "simple";
-  if (renderEngine === "agent-card") {
-    return createAgentCardRenderer(params);
+  const feishuCfg = resolveFeishuAccount({ cfg: params.cfg, accountId: params.accountId }).config;
+  const renderEngine = feishuCfg.renderEngine ?? "simple";
+  if (renderEngine === "agent-card" || renderEngine === "agent-card-stream") {
+    return createAgentCardRenderer(params, { streaming: renderEngine === "agent-card-stream" });
   }
   return createSimpleRenderer(params);
 }
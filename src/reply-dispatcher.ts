@@ -17,17 +17,24 @@ import {
 
 export type CreateFeishuReplyDispatcherParams = {
   cfg: ClawdbotConfig;
+  accountId?: string;
   agentId: string;
   runtime: RuntimeEnv;
   chatId: string;
   replyToMessageId?: string;
+  /** Reply inside the thread of `replyToMessageId` (topic groups) */
+  replyInThread?: boolean;
   /** Mention targets, will be auto-included in replies */
   mentionTargets?: MentionTarget[];
+  /** open_id of the user who started the run; only they can stop it from the card */
+  requesterOpenId?: string;
+  /** Called after each final reply payload has been sent */
+  onFinalDelivered?: (payload: ReplyPayload) => void;
 };
 
 export function createFeishuReplyDispatcher(params: CreateFeishuReplyDispatcherParams) {
   const core = getFeishuRuntime();
-  const { cfg, agentId, chatId, replyToMessageId, mentionTargets } = params;
+  const { cfg, accountId, agentId, chatId, replyToMessageId, replyInThread, mentionTargets } = params;
 
   const prefixContext = createReplyPrefixContext({
     cfg,
@@ -41,12 +48,12 @@ export function createFeishuReplyDispatcher(params: CreateFeishuReplyDispatcherP
   const typingCallbacks = createTypingCallbacks({
     start: async () => {
       if (!replyToMessageId) return;
-      typingState = await addTypingIndicator({ cfg, messageId: replyToMessageId });
+      typingState = await addTypingIndicator({ cfg, accountId, messageId: replyToMessageId });
       params.runtime.log?.(`feishu: added typing indicator reaction`);
     },
     stop: async () => {
       if (!typingState) return;
-      await removeTypingIndicator({ cfg, state: typingState });
+      await removeTypingIndicator({ cfg, accountId, state: typingState });
       typingState = null;
       params.runtime.log?.(`feishu: removed typing indicator reaction`);
     },
@@ -68,13 +75,24 @@ export function createFeishuReplyDispatcher(params: CreateFeishuReplyDispatcherP
     },
   });
 
+  // Aborted by the Stop button on the agent card
+  const abortController = new AbortController();
+
   const renderer = createFeishuRenderer({
     cfg,
+    accountId,
     agentId,
     runtime: params.runtime,
     chatId,
     replyToMessageId,
+    replyInThread,
     mentionTargets,
+    requesterOpenId: params.requesterOpenId,
+    onCancel: () => {
+      params.runtime.log?.(`feishu: run canceled from card`);
+      abortController.abort();
+      typingCallbacks.onIdle?.();
+    },
   });
 
   const { dispatcher, replyOptions, markDispatchIdle } =
@@ -83,8 +101,9 @@ export function createFeishuReplyDispatcher(params: CreateFeishuReplyDispatcherP
       responsePrefixContextProvider: prefixContext.responsePrefixContextProvider,
       humanDelay: core.channel.reply.resolveHumanDelayConfig(cfg, agentId),
       onReplyStart: typingCallbacks.onReplyStart,
-      deliver: async (payload: ReplyPayload) => {
-        await renderer.deliver(payload);
+      deliver: async (payload: ReplyPayload, info?: { kind: string }) => {
+        await renderer.deliver(payload, info);
+        if (info?.kind === "final") params.onFinalDelivered?.(payload);
       },
       onError: (err, info) => {
         params.runtime.error?.(`feishu ${info.kind} reply failed: ${String(err)}`);
@@ -98,6 +117,7 @@ export function createFeishuReplyDispatcher(params: CreateFeishuReplyDispatcherP
     dispatcher,
     replyOptions: {
       ...replyOptions,
+      abortSignal: abortController.signal,
       onModelSelected: prefixContext.onModelSelected,
     },
     markDispatchIdle: () => {
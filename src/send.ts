@@ -1,6 +1,5 @@
 import type { ClawdbotConfig } from "openclaw/plugin-sdk";
 import type {
-  FeishuConfig,
   FeishuSendResult,
   FeishuHistoryMessage,
   ListMessagesResult,
@@ -8,9 +7,13 @@ import type {
 import type { MentionTarget } from "./mention.js";
 import { buildMentionedMessage, buildMentionedCardContent } from "./mention.js";
 import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccount } from "./accounts.js";
 import { resolveReceiveIdType, normalizeFeishuTarget } from "./targets.js";
 import { getFeishuRuntime } from "./runtime.js";
 import { containsMarkdownTable, splitIntoSegments, buildCardElements } from "./table-parser.js";
+import { chunkFeishuPost, markdownToFeishuPost, type FeishuPost } from "./post.js";
+import { uploadImageFromUrlFeishu } from "./media.js";
+import { extractFeishuMessageText } from "./message-content.js";
 
 export type FeishuMessageInfo = {
   messageId: string;
@@ -28,15 +31,16 @@ export type FeishuMessageInfo = {
  */
 export async function getMessageFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
 }): Promise<FeishuMessageInfo | null> {
-  const { cfg, messageId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, messageId } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
 
   try {
     const response = (await client.im.message.get({
@@ -96,21 +100,24 @@ export async function getMessageFeishu(params: {
 
 export type SendFeishuMessageParams = {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   text: string;
   replyToMessageId?: string;
+  /** Post the reply in the replied-to message's thread (topic groups) */
+  replyInThread?: boolean;
   /** Mention target users */
   mentions?: MentionTarget[];
 };
 
 export async function sendMessageFeishu(params: SendFeishuMessageParams): Promise<FeishuSendResult> {
-  const { cfg, to, text, replyToMessageId, mentions } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, to, text, replyToMessageId, replyInThread, mentions } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
   const receiveId = normalizeFeishuTarget(to);
   if (!receiveId) {
     throw new Error(`Invalid Feishu target: ${to}`);
@@ -137,6 +144,7 @@ export async function sendMessageFeishu(params: SendFeishuMessageParams): Promis
       data: {
         content,
         msg_type: "text",
+        reply_in_thread: replyInThread,
       },
     });
 
@@ -171,19 +179,21 @@ export async function sendMessageFeishu(params: SendFeishuMessageParams): Promis
 
 export type SendFeishuCardParams = {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   card: Record<string, unknown>;
   replyToMessageId?: string;
+  replyInThread?: boolean;
 };
 
 export async function sendCardFeishu(params: SendFeishuCardParams): Promise<FeishuSendResult> {
-  const { cfg, to, card, replyToMessageId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, to, card, replyToMessageId, replyInThread } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
   const receiveId = normalizeFeishuTarget(to);
   if (!receiveId) {
     throw new Error(`Invalid Feishu target: ${to}`);
@@ -198,6 +208,7 @@ export async function sendCardFeishu(params: SendFeishuCardParams): Promise<Feis
       data: {
         content,
         msg_type: "interactive",
+        reply_in_thread: replyInThread,
       },
     });
 
@@ -232,16 +243,17 @@ export async function sendCardFeishu(params: SendFeishuCardParams): Promise<Feis
 
 export async function updateCardFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   card: Record<string, unknown>;
 }): Promise<void> {
-  const { cfg, messageId, card } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, messageId, card } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
   const content = JSON.stringify(card);
 
   const response = await client.im.message.patch({
@@ -297,20 +309,126 @@ export function buildMarkdownCard(text: string): Record<string, unknown> {
  */
 export async function sendMarkdownCardFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   text: string;
   replyToMessageId?: string;
+  replyInThread?: boolean;
   /** Mention target users */
   mentions?: MentionTarget[];
 }): Promise<FeishuSendResult> {
-  const { cfg, to, text, replyToMessageId, mentions } = params;
+  const { cfg, accountId, to, text, replyToMessageId, replyInThread, mentions } = params;
   // Build message content (with @mention support)
   let cardText = text;
   if (mentions && mentions.length > 0) {
     cardText = buildMentionedCardContent(mentions, text);
   }
   const card = buildMarkdownCard(cardText);
-  return sendCardFeishu({ cfg, to, card, replyToMessageId });
+  return sendCardFeishu({ cfg, accountId, to, card, replyToMessageId, replyInThread });
+}
+
+/**
+ * Send a rich text (post) message.
+ * Post content must stay under 30KB; see chunkFeishuPost.
+ */
+export async function sendPostFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  to: string;
+  post: FeishuPost;
+  replyToMessageId?: string;
+  replyInThread?: boolean;
+}): Promise<FeishuSendResult> {
+  const { cfg, accountId, to, post, replyToMessageId, replyInThread } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
+  }
+
+  const client = createFeishuClient(account.config, account.accountId);
+  const receiveId = normalizeFeishuTarget(to);
+  if (!receiveId) {
+    throw new Error(`Invalid Feishu target: ${to}`);
+  }
+
+  const receiveIdType = resolveReceiveIdType(receiveId);
+  const content = JSON.stringify({ zh_cn: post });
+
+  if (replyToMessageId) {
+    const response = await client.im.message.reply({
+      path: { message_id: replyToMessageId },
+      data: {
+        content,
+        msg_type: "post",
+        reply_in_thread: replyInThread,
+      },
+    });
+
+    if (response.code !== 0) {
+      throw new Error(`Feishu post reply failed: ${response.msg || `code ${response.code}`}`);
+    }
+
+    return {
+      messageId: response.data?.message_id ?? "unknown",
+      chatId: receiveId,
+    };
+  }
+
+  const response = await client.im.message.create({
+    params: { receive_id_type: receiveIdType },
+    data: {
+      receive_id: receiveId,
+      content,
+      msg_type: "post",
+    },
+  });
+
+  if (response.code !== 0) {
+    throw new Error(`Feishu post send failed: ${response.msg || `code ${response.code}`}`);
+  }
+
+  return {
+    messageId: response.data?.message_id ?? "unknown",
+    chatId: receiveId,
+  };
+}
+
+/**
+ * Send Markdown as one or more post messages (split by the post size limit).
+ * Images referenced as `![alt](path-or-url)` are uploaded first.
+ * Returns the first message sent.
+ */
+export async function sendMarkdownPostFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  to: string;
+  text: string;
+  replyToMessageId?: string;
+  replyInThread?: boolean;
+  /** Mention target users */
+  mentions?: MentionTarget[];
+}): Promise<FeishuSendResult> {
+  const { cfg, accountId, to, text, replyToMessageId, replyInThread, mentions } = params;
+  const post = await markdownToFeishuPost(text, {
+    uploadImage: async (src) => (await uploadImageFromUrlFeishu({ cfg, accountId, url: src })).imageKey,
+  });
+  if (mentions && mentions.length > 0) {
+    // Mentions lead the first paragraph (after the title)
+    const mentionElements = mentions.map((target) => ({ tag: "at", user_id: target.openId }));
+    const [firstParagraph = [], ...rest] = post.content;
+    // Block elements (code, images, md) must stay alone in their paragraph
+    const inline = firstParagraph.every((element) => ["text", "a", "at"].includes(element.tag));
+    post.content = inline
+      ? [[...mentionElements, { tag: "text", text: " " }, ...firstParagraph], ...rest]
+      : [mentionElements, ...post.content];
+  }
+
+  let first: FeishuSendResult | undefined;
+  for (const chunk of chunkFeishuPost(post)) {
+    const result = await sendPostFeishu({ cfg, accountId, to, post: chunk, replyToMessageId, replyInThread });
+    first ??= result;
+  }
+  return first ?? { messageId: "unknown", chatId: normalizeFeishuTarget(to) ?? to };
 }
 
 /**
@@ -319,16 +437,17 @@ export async function sendMarkdownCardFeishu(params: {
  */
 export async function editMessageFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   text: string;
 }): Promise<void> {
-  const { cfg, messageId, text } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const { cfg, accountId, messageId, text } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
   const tableMode = getFeishuRuntime().channel.text.resolveMarkdownTableMode({
     cfg,
     channel: "feishu",
@@ -355,7 +474,10 @@ export async function editMessageFeishu(params: {
  */
 export async function listMessagesFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   chatId: string;
+  /** Read this thread (omt_xxx) of the chat instead of the whole chat; time range is ignored */
+  threadId?: string;
   count?: number;
   startTime?: string;
   endTime?: string;
@@ -364,19 +486,21 @@ export async function listMessagesFeishu(params: {
 }): Promise<ListMessagesResult> {
   const {
     cfg,
+    accountId,
     chatId,
+    threadId,
     count = 200,
     startTime,
     endTime,
     pageToken,
     sortType = "ByCreateTimeDesc",
   } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
   const messages: FeishuHistoryMessage[] = [];
   let currentPageToken = pageToken;
   let hasMore = true;
@@ -387,12 +511,13 @@ export async function listMessagesFeishu(params: {
   while (hasMore && messages.length < count) {
     const response = await client.im.message.list({
       params: {
-        container_id_type: "chat",
-        container_id: chatId,
+        container_id_type: threadId ? "thread" : "chat",
+        container_id: threadId ?? chatId,
         page_size: pageSize,
         page_token: currentPageToken,
-        start_time: startTime,
-        end_time: endTime,
+        // The thread container doesn't support time filters
+        start_time: threadId ? undefined : startTime,
+        end_time: threadId ? undefined : endTime,
         sort_type: sortType,
       },
     });
@@ -405,32 +530,13 @@ export async function listMessagesFeishu(params: {
     for (const item of items) {
       if (messages.length >= count) break;
 
-      // Parse content based on message type
-      let content = item.body?.content ?? "";
-      try {
-        const parsed = JSON.parse(content);
-        if (item.msg_type === "text" && parsed.text) {
-          content = parsed.text;
-        } else if (item.msg_type === "image") {
-          content = "[图片]";
-        } else if (item.msg_type === "file") {
-          content = "[文件]";
-        } else if (item.msg_type === "audio") {
-          content = "[语音]";
-        } else if (item.msg_type === "video") {
-          content = "[视频]";
-        } else if (item.msg_type === "sticker") {
-          content = "[表情]";
-        } else if (item.msg_type === "interactive") {
-          content = "[卡片消息]";
-        } else if (item.msg_type === "share_chat") {
-          content = "[分享群聊]";
-        } else if (item.msg_type === "share_user") {
-          content = "[分享用户]";
-        }
-      } catch {
-        // Keep raw content if parsing fails
-      }
+      const content = await extractFeishuMessageText({
+        cfg,
+        accountId,
+        messageId: item.message_id ?? "",
+        messageType: item.msg_type ?? "text",
+        content: item.body?.content ?? "",
+      });
 
       messages.push({
         messageId: item.message_id ?? "",
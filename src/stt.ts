@@ -0,0 +1,197 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { ClawdbotConfig } from "openclaw/plugin-sdk";
+import type { FeishuConfig } from "./types.js";
+import { runFfmpeg, runShellCommand, shellQuote } from "./audio.js";
+
+/**
+ * Speech-to-text for inbound voice messages. Feishu audio arrives as Opus in an Ogg
+ * container (`.opus`).
+ */
+export interface FeishuSttProvider {
+  transcribe(params: {
+    filePath: string;
+    contentType?: string;
+    language?: string;
+  }): Promise<string>;
+}
+
+type SttConfig = NonNullable<FeishuConfig["stt"]>;
+
+const DEFAULT_TIMEOUT_SEC = 60;
+
+/**
+ * Runs a local command, e.g. whisper.cpp's `whisper-cli -m ggml-base.bin -nt -f {input}`,
+ * and reads the transcript from stdout. whisper.cpp only reads WAV, so the audio is
+ * converted to 16 kHz mono WAV with ffmpeg first (`{input}` is that WAV file).
+ */
+export function createCommandSttProvider(params: {
+  command: string;
+  ffmpegPath?: string;
+  convertToWav?: boolean;
+  timeoutMs?: number;
+}): FeishuSttProvider {
+  const { command, ffmpegPath, convertToWav = true } = params;
+  const timeoutMs = params.timeoutMs ?? DEFAULT_TIMEOUT_SEC * 1000;
+
+  return {
+    async transcribe({ filePath, language }) {
+      let input = filePath;
+      let tmpDir: string | undefined;
+      try {
+        if (convertToWav) {
+          tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "feishu-stt-"));
+          input = path.join(tmpDir, "audio.wav");
+          await runFfmpeg({
+            inputPath: filePath,
+            outputPath: input,
+            outputArgs: ["-ar 16000 -ac 1 -c:a pcm_s16le"],
+            ffmpegPath,
+            timeoutMs,
+          });
+        }
+        const output = await runShellCommand(
+          command
+            .replaceAll("{input}", shellQuote(input))
+            .replaceAll("{language}", shellQuote(language ?? "auto")),
+          { timeoutMs },
+        );
+        return output.replace(/\s+/g, " ").trim();
+      } finally {
+        if (tmpDir) await fs.rm(tmpDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+/** POSTs to an OpenAI-compatible `/audio/transcriptions` endpoint (OpenAI, Groq, faster-whisper-server...). */
+export function createOpenAISttProvider(params: {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  timeoutMs?: number;
+}): FeishuSttProvider {
+  const baseUrl = (params.baseUrl ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+  const model = params.model ?? "whisper-1";
+  const timeoutMs = params.timeoutMs ?? DEFAULT_TIMEOUT_SEC * 1000;
+
+  return {
+    async transcribe({ filePath, contentType, language }) {
+      const buffer = await fs.readFile(filePath);
+      const form = new FormData();
+      // Endpoints pick the decoder from the extension; Feishu's opus is Ogg
+      form.append("file", new Blob([buffer], { type: contentType ?? "audio/ogg" }), "audio.ogg");
+      form.append("model", model);
+      form.append("response_format", "json");
+      if (language) form.append("language", language);
+
+      const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+        method: "POST",
+        headers: params.apiKey ? { Authorization: `Bearer ${params.apiKey}` } : undefined,
+        body: form,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`transcription request failed: HTTP ${response.status} ${(await response.text()).slice(0, 300)}`);
+      }
+      const data = (await response.json()) as { text?: string };
+      return (data.text ?? "").trim();
+    },
+  };
+}
+
+let customProvider: FeishuSttProvider | null = null;
+let configuredProvider: { signature: string; provider: FeishuSttProvider | null } | null = null;
+
+/** Use a custom transcription backend instead of `channels.feishu.stt`. Pass null to reset. */
+export function setFeishuSttProvider(provider: FeishuSttProvider | null): void {
+  customProvider = provider;
+}
+
+function createProviderFromConfig(sttCfg: SttConfig, feishuCfg?: FeishuConfig): FeishuSttProvider | null {
+  const timeoutMs = (sttCfg.timeoutSec ?? DEFAULT_TIMEOUT_SEC) * 1000;
+  if (sttCfg.provider === "command") {
+    if (!sttCfg.command) return null;
+    return createCommandSttProvider({
+      command: sttCfg.command,
+      ffmpegPath: sttCfg.ffmpegPath ?? feishuCfg?.ffmpegPath,
+      convertToWav: sttCfg.convertToWav,
+      timeoutMs,
+    });
+  }
+  if (sttCfg.provider === "openai") {
+    return createOpenAISttProvider({
+      baseUrl: sttCfg.baseUrl,
+      apiKey: sttCfg.apiKey ?? process.env.OPENAI_API_KEY,
+      model: sttCfg.model,
+      timeoutMs,
+    });
+  }
+  return null;
+}
+
+export function getFeishuSttProvider(cfg: ClawdbotConfig): FeishuSttProvider | null {
+  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
+  const sttCfg = feishuCfg?.stt;
+  if (sttCfg?.enabled === false) return null;
+  if (customProvider) return customProvider;
+  if (!sttCfg) return null;
+
+  const signature = JSON.stringify([sttCfg, feishuCfg?.ffmpegPath]);
+  if (configuredProvider?.signature !== signature) {
+    configuredProvider = { signature, provider: createProviderFromConfig(sttCfg, feishuCfg) };
+  }
+  return configuredProvider.provider;
+}
+
+// Transcripts by file_key; the same voice note is often forwarded or quoted again
+const MAX_CACHED_TRANSCRIPTS = 500;
+const transcriptCache = new Map<string, string>();
+const pendingTranscripts = new Map<string, Promise<string>>();
+
+function cacheTranscript(fileKey: string, text: string) {
+  transcriptCache.delete(fileKey);
+  transcriptCache.set(fileKey, text);
+  for (const key of transcriptCache.keys()) {
+    if (transcriptCache.size <= MAX_CACHED_TRANSCRIPTS) break;
+    transcriptCache.delete(key);
+  }
+}
+
+/**
+ * Transcribe a downloaded voice message. Resolves undefined when no backend is
+ * configured or transcription fails, so the message still goes through as audio.
+ */
+export async function transcribeFeishuAudio(params: {
+  cfg: ClawdbotConfig;
+  fileKey: string;
+  filePath: string;
+  contentType?: string;
+  log?: (msg: string) => void;
+}): Promise<string | undefined> {
+  const { cfg, fileKey, filePath, contentType, log } = params;
+  const provider = getFeishuSttProvider(cfg);
+  if (!provider) return undefined;
+
+  const cached = transcriptCache.get(fileKey);
+  if (cached !== undefined) return cached;
+
+  let pending = pendingTranscripts.get(fileKey);
+  if (!pending) {
+    const language = (cfg.channels?.feishu as FeishuConfig | undefined)?.stt?.language;
+    pending = provider.transcribe({ filePath, contentType, language });
+    pendingTranscripts.set(fileKey, pending);
+  }
+  try {
+    const text = await pending;
+    cacheTranscript(fileKey, text);
+    log?.(`feishu: transcribed audio ${fileKey} (${text.length} chars)`);
+    return text;
+  } catch (err) {
+    log?.(`feishu: failed to transcribe audio ${fileKey}: ${String(err)}`);
+    return undefined;
+  } finally {
+    pendingTranscripts.delete(fileKey);
+  }
+}
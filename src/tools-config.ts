@@ -3,7 +3,7 @@ import type { FeishuToolsConfig } from "./types.js";
 /**
  * Default tool configuration.
  * - doc, wiki, drive, scopes: enabled by default
- * - perm: disabled by default (sensitive operation)
+ * - perm, chatHistory: disabled by default (sensitive operation)
  */
 export const DEFAULT_TOOLS_CONFIG: Required<FeishuToolsConfig> = {
   doc: true,
@@ -11,6 +11,8 @@ export const DEFAULT_TOOLS_CONFIG: Required<FeishuToolsConfig> = {
   drive: true,
   perm: false,
   scopes: true,
+  chatHistory: false,
+  chatHistoryAllowChats: [],
 };
 
 /**
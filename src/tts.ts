@@ -0,0 +1,182 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { ClawdbotConfig } from "openclaw/plugin-sdk";
+import type { FeishuConfig } from "./types.js";
+import { runShellCommand, shellQuote } from "./audio.js";
+import { sendAudioBufferFeishu } from "./media.js";
+
+/**
+ * Text-to-speech for voice replies. Providers may return any audio format ffmpeg
+ * reads; it is converted to Opus before sending.
+ */
+export interface FeishuTtsProvider {
+  synthesize(params: { text: string; voice?: string }): Promise<{ audio: Buffer; fileName: string }>;
+}
+
+type TtsConfig = NonNullable<FeishuConfig["tts"]>;
+
+const DEFAULT_TIMEOUT_SEC = 60;
+const DEFAULT_MAX_CHARS = 500;
+
+/**
+ * Runs a local command, e.g. `piper --model zh_CN-huayan-medium.onnx --output_file {output}`.
+ * The text is written to stdin and also substituted for `{text}`; the command must
+ * write audio to `{output}`.
+ */
+export function createCommandTtsProvider(params: {
+  command: string;
+  /** Extension of the file the command writes, default `.wav` */
+  outputExtension?: string;
+  timeoutMs?: number;
+}): FeishuTtsProvider {
+  const { command } = params;
+  const outputExtension = params.outputExtension ?? ".wav";
+  const timeoutMs = params.timeoutMs ?? DEFAULT_TIMEOUT_SEC * 1000;
+
+  return {
+    async synthesize({ text, voice }) {
+      const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "feishu-tts-"));
+      try {
+        const fileName = `speech${outputExtension}`;
+        const outputPath = path.join(tmpDir, fileName);
+        await runShellCommand(
+          command
+            .replaceAll("{output}", shellQuote(outputPath))
+            .replaceAll("{text}", shellQuote(text))
+            .replaceAll("{voice}", shellQuote(voice ?? "")),
+          { timeoutMs, input: text },
+        );
+        return { audio: await fs.readFile(outputPath), fileName };
+      } finally {
+        await fs.rm(tmpDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+/** POSTs to an OpenAI-compatible `/audio/speech` endpoint, asking for Opus directly. */
+export function createOpenAITtsProvider(params: {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  voice?: string;
+  timeoutMs?: number;
+}): FeishuTtsProvider {
+  const baseUrl = (params.baseUrl ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+  const timeoutMs = params.timeoutMs ?? DEFAULT_TIMEOUT_SEC * 1000;
+
+  return {
+    async synthesize({ text, voice }) {
+      const response = await fetch(`${baseUrl}/audio/speech`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(params.apiKey ? { Authorization: `Bearer ${params.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: params.model ?? "tts-1",
+          voice: voice ?? params.voice ?? "alloy",
+          input: text,
+          response_format: "opus",
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`speech request failed: HTTP ${response.status} ${(await response.text()).slice(0, 300)}`);
+      }
+      return { audio: Buffer.from(await response.arrayBuffer()), fileName: "speech.opus" };
+    },
+  };
+}
+
+let customProvider: FeishuTtsProvider | null = null;
+let configuredProvider: { signature: string; provider: FeishuTtsProvider | null } | null = null;
+
+/** Use a custom speech backend instead of `channels.feishu.tts`. Pass null to reset. */
+export function setFeishuTtsProvider(provider: FeishuTtsProvider | null): void {
+  customProvider = provider;
+}
+
+function createProviderFromConfig(ttsCfg: TtsConfig): FeishuTtsProvider | null {
+  const timeoutMs = (ttsCfg.timeoutSec ?? DEFAULT_TIMEOUT_SEC) * 1000;
+  if (ttsCfg.provider === "command") {
+    if (!ttsCfg.command) return null;
+    return createCommandTtsProvider({
+      command: ttsCfg.command,
+      outputExtension: ttsCfg.outputExtension,
+      timeoutMs,
+    });
+  }
+  if (ttsCfg.provider === "openai") {
+    return createOpenAITtsProvider({
+      baseUrl: ttsCfg.baseUrl,
+      apiKey: ttsCfg.apiKey ?? process.env.OPENAI_API_KEY,
+      model: ttsCfg.model,
+      voice: ttsCfg.voice,
+      timeoutMs,
+    });
+  }
+  return null;
+}
+
+export function getFeishuTtsProvider(cfg: ClawdbotConfig): FeishuTtsProvider | null {
+  const ttsCfg = (cfg.channels?.feishu as FeishuConfig | undefined)?.tts;
+  if (!ttsCfg || ttsCfg.enabled === false) return null;
+  if (customProvider) return customProvider;
+
+  const signature = JSON.stringify(ttsCfg);
+  if (configuredProvider?.signature !== signature) {
+    configuredProvider = { signature, provider: createProviderFromConfig(ttsCfg) };
+  }
+  return configuredProvider.provider;
+}
+
+/** Reduce a Markdown answer to what is worth reading aloud. */
+export function toSpeechText(markdown: string, maxChars = DEFAULT_MAX_CHARS): string {
+  const text = markdown
+    .replace(/```[\s\S]*?```/g, "（代码见文字回复）")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/<at[^>]*>([^<]*)<\/at>/g, "$1")
+    .replace(/^\s*(?:#{1,6}|>|[-*+]|\d+[.)])\s+/gm, "")
+    .replace(/[*_~`|]/g, "")
+    .replace(/\n{2,}/g, "\n")
+    .trim();
+  if (text.length <= maxChars) return text;
+  // Cut at the last sentence end that fits
+  const head = text.slice(0, maxChars);
+  const cut = Math.max(...["。", "！", "？", ". ", "! ", "? ", "\n"].map((mark) => head.lastIndexOf(mark)));
+  return cut > maxChars / 2 ? head.slice(0, cut + 1).trim() : `${head}…`;
+}
+
+/**
+ * Send `text` as a voice message replying to `replyToMessageId`. Resolves false when
+ * TTS is not configured or fails; the text reply has been sent already either way.
+ */
+export async function sendVoiceReplyFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  to: string;
+  text: string;
+  replyToMessageId?: string;
+  log?: (msg: string) => void;
+}): Promise<boolean> {
+  const { cfg, accountId, to, replyToMessageId, log } = params;
+  const provider = getFeishuTtsProvider(cfg);
+  if (!provider) return false;
+
+  const ttsCfg = (cfg.channels?.feishu as FeishuConfig | undefined)?.tts;
+  const text = toSpeechText(params.text, ttsCfg?.maxChars);
+  if (!text) return false;
+
+  try {
+    const { audio, fileName } = await provider.synthesize({ text, voice: ttsCfg?.voice });
+    await sendAudioBufferFeishu({ cfg, accountId, to, audio, fileName, replyToMessageId });
+    log?.(`feishu: sent voice reply (${text.length} chars)`);
+    return true;
+  } catch (err) {
+    log?.(`feishu: voice reply failed: ${String(err)}`);
+    return false;
+  }
+}
@@ -1,7 +1,13 @@
-import type { FeishuConfigSchema, FeishuGroupSchema, z } from "./config-schema.js";
+import type {
+  FeishuConfigSchema,
+  FeishuAccountConfigSchema,
+  FeishuGroupSchema,
+  z,
+} from "./config-schema.js";
 import type { MentionTarget } from "./mention.js";
 
 export type FeishuConfig = z.infer<typeof FeishuConfigSchema>;
+export type FeishuAccountConfig = z.infer<typeof FeishuAccountConfigSchema>;
 export type FeishuGroupConfig = z.infer<typeof FeishuGroupSchema>;
 
 export type FeishuDomain = "feishu" | "lark";
@@ -9,10 +15,13 @@ export type FeishuConnectionMode = "websocket" | "webhook";
 
 export type ResolvedFeishuAccount = {
   accountId: string;
+  name?: string;
   enabled: boolean;
   configured: boolean;
   appId?: string;
   domain: FeishuDomain;
+  /** Top-level channel config merged with this account's overrides */
+  config: FeishuConfig;
 };
 
 export type FeishuIdType = "open_id" | "user_id" | "union_id" | "chat_id";
@@ -27,6 +36,8 @@ export type FeishuMessageContext = {
   mentionedBot: boolean;
   rootId?: string;
   parentId?: string;
+  /** Topic (thread) the message belongs to: every message in topic groups, thread replies elsewhere */
+  threadId?: string;
   content: string;
   contentType: string;
   imageKey?: string;
@@ -79,4 +90,7 @@ export type FeishuToolsConfig = {
   drive?: boolean;
   perm?: boolean;
   scopes?: boolean;
+  chatHistory?: boolean;
+  /** Chats feishu_chat_history may read besides the current conversation's group */
+  chatHistoryAllowChats?: string[];
 };
@@ -1,6 +1,6 @@
 import type { ClawdbotConfig } from "openclaw/plugin-sdk";
-import type { FeishuConfig } from "./types.js";
 import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccount } from "./accounts.js";
 
 // Feishu emoji types for typing indicator
 // See: https://open.feishu.cn/document/server-docs/im-v1/message-reaction/emojis-introduce
@@ -17,15 +17,16 @@ export type TypingIndicatorState = {
  */
 export async function addTypingIndicator(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
 }): Promise<TypingIndicatorState> {
-  const { cfg, messageId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
+  const { cfg, accountId, messageId } = params;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) {
     return { messageId, reactionId: null };
   }
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
 
   try {
     const response = await client.im.messageReaction.create({
@@ -49,15 +50,16 @@ export async function addTypingIndicator(params: {
  */
 export async function removeTypingIndicator(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   state: TypingIndicatorState;
 }): Promise<void> {
-  const { cfg, state } = params;
+  const { cfg, accountId, state } = params;
   if (!state.reactionId) return;
 
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) return;
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.configured) return;
 
-  const client = createFeishuClient(feishuCfg);
+  const client = createFeishuClient(account.config, account.accountId);
 
   try {
     await client.im.messageReaction.delete({
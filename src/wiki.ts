@@ -1,5 +1,6 @@
-import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
-import { createFeishuClient } from "./client.js";
+import type { OpenClawPluginApi, OpenClawPluginToolContext } from "openclaw/plugin-sdk";
+import { createFeishuToolClient } from "./client.js";
+import { listEnabledFeishuAccounts } from "./accounts.js";
 import type { FeishuConfig } from "./types.js";
 import type * as Lark from "@larksuiteoapi/node-sdk";
 import { FeishuWikiSchema, type FeishuWikiParams } from "./wiki-schema.js";
@@ -150,22 +151,28 @@ async function renameNode(
 // ============ Tool Registration ============
 
 export function registerFeishuWikiTools(api: OpenClawPluginApi) {
-  const feishuCfg = api.config?.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg?.appId || !feishuCfg?.appSecret) {
+  if (!api.config || listEnabledFeishuAccounts(api.config).length === 0) {
     api.logger.debug?.("feishu_wiki: Feishu credentials not configured, skipping wiki tools");
     return;
   }
+  const feishuCfg = api.config.channels?.feishu as FeishuConfig | undefined;
 
-  const toolsCfg = resolveToolsConfig(feishuCfg.tools);
+  const toolsCfg = resolveToolsConfig(feishuCfg?.tools);
   if (!toolsCfg.wiki) {
     api.logger.debug?.("feishu_wiki: wiki tool disabled in config");
     return;
   }
 
-  const getClient = () => createFeishuClient(feishuCfg);
+  // Resolved per run, so tools act as the account of the conversation that invoked them
+  const getClient = (ctx: OpenClawPluginToolContext) =>
+    createFeishuToolClient({
+      cfg: api.config,
+      messageChannel: ctx.messageChannel,
+      agentAccountId: ctx.agentAccountId,
+    });
 
   api.registerTool(
-    {
+    (ctx: OpenClawPluginToolContext) => ({
       name: "feishu_wiki",
       label: "Feishu Wiki",
       description:
@@ -174,7 +181,7 @@ export function registerFeishuWikiTools(api: OpenClawPluginApi) {
       async execute(_toolCallId, params) {
         const p = params as FeishuWikiParams;
         try {
-          const client = getClient();
+          const client = getClient(ctx);
           switch (p.action) {
             case "spaces":
               return json(await listSpaces(client));
@@ -210,7 +217,7 @@ export function registerFeishuWikiTools(api: OpenClawPluginApi) {
           return json({ error: err instanceof Error ? err.message : String(err) });
         }
       },
-    },
+    }),
     { name: "feishu_wiki" },
   );
 